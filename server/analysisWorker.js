@@ -0,0 +1,11 @@
+import { parentPort } from 'worker_threads';
+import { analyzeSEO } from './analyzer.js';
+
+// Worker thread for batch jobs: analyzes one document per message
+parentPort.on('message', ({ id, payload }) => {
+  try {
+    parentPort.postMessage({ id, result: analyzeSEO(payload.text, payload.options) });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error.message });
+  }
+});
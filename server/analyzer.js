@@ -0,0 +1,210 @@
+import { averageSyllablesPerWord, fleschReadingEase, readabilityReport } from './readability.js';
+import { getKeywordMetrics } from './keywordMetrics.js';
+import { suggestRelatedKeywords } from './relatedKeywords.js';
+import { extractKeyphrases } from './keyphrases.js';
+import { SENTENCE_END, isContentWord, tokenize } from './text.js';
+import { LANGUAGES, detectLanguage, getStopwords } from './language.js';
+import { findPhraseMatches, matchTokens } from './phraseMatcher.js';
+import { analyzeFocusKeywords } from './focus.js';
+import { analyzeStructure, parseDocument } from './structure.js';
+import { analyzeMeta } from './meta.js';
+import { annotateText } from './annotations.js';
+import { analyzeStyle } from './style.js';
+import { DEFAULT_RULE_PROFILE, getRuleProfile, scoreAnalysis } from './rules.js';
+import { analyzeTopics } from './topics.js';
+
+// Attach search volume, difficulty and CPC from the keyword metrics provider
+function withKeywordMetrics(entry) {
+  const { searchVolume, difficulty, cpc, source } = getKeywordMetrics(entry.keyword);
+  return { ...entry, searchVolume, difficulty, cpc, metricsSource: source };
+}
+
+// Mock SEO analysis function (simulating external API). profile is the resolved rule profile,
+// for callers such as batch workers that can't look team profiles up by id.
+export function analyzeSEO(content, { format = 'text', language = 'auto', ruleProfile = DEFAULT_RULE_PROFILE, profile = getRuleProfile(ruleProfile), focusKeyword, secondaryKeywords = [], metaTitle, metaDescription, baseUrl } = {}) {
+  // Parse markdown/HTML into readable text plus its structure
+  const document = parseDocument(content, format);
+  const text = document.text;
+  
+  // Detect the language unless the caller chose one; stopwords and English-only checks follow it
+  const detected = language === 'auto' ? detectLanguage(text) : null;
+  const languageCode = detected ? detected.code : language;
+  const stopwords = getStopwords(languageCode);
+  
+  // Calculate basic readability metrics
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  const sentences = text.split(SENTENCE_END).filter(s => s.trim().length > 0);
+  const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+  
+  const avgWordsPerSentence = sentences.length > 0 ? words.length / sentences.length : 0;
+  const avgSentencesPerParagraph = paragraphs.length > 0 ? sentences.length / paragraphs.length : 0;
+  
+  // Calculate readability score (Flesch Reading Ease). The formulas and syllable counts are
+  // English, so other languages get none rather than a meaningless score.
+  const hasReadability = languageCode === 'en';
+  const avgSentenceLength = avgWordsPerSentence;
+  const avgSyllablesPerWord = hasReadability ? averageSyllablesPerWord(text) : null;
+  const readabilityScore = hasReadability ? fleschReadingEase(avgSentenceLength, avgSyllablesPerWord) : null;
+  const readability = hasReadability
+    ? readabilityReport(text, {
+        wordCount: words.length,
+        sentenceCount: sentences.length
+      })
+    : null;
+  
+  // Extract repeated multi-word keyphrases ("machine learning", "credit card")
+  const keyphrases = extractKeyphrases(text, { limit: 5, language: languageCode });
+  
+  // Keyword frequencies count true phrase occurrences, ignoring case, accents and plurals
+  const matchedTokens = matchTokens(text);
+  const occurrencesOf = keyword => findPhraseMatches(matchedTokens, keyword).length;
+  
+  // Count single terms by stem, skipping stopwords and short tokens, so "keyword" and
+  // "keywords" are one entry labelled with the spelling used most often
+  const termGroups = new Map();
+  tokenize(text).forEach(token => {
+    if (token.length > 3 && isContentWord(token, stopwords)) {
+      const key = matchTokens(token).join(' ');
+      const group = termGroups.get(key) || { count: 0, spellings: {} };
+      group.count += 1;
+      group.spellings[token] = (group.spellings[token] || 0) + 1;
+      termGroups.set(key, group);
+    }
+  });
+  
+  const phraseFrequencies = keyphrases.map(({ keyword }) => occurrencesOf(keyword));
+  
+  // Occurrences of each term that already belong to a reported keyphrase
+  const coveredByPhrases = {};
+  keyphrases.forEach(({ keyword }, index) => {
+    matchTokens(keyword).forEach(term => {
+      coveredByPhrases[term] = (coveredByPhrases[term] || 0) + phraseFrequencies[index];
+    });
+  });
+  
+  // Get top keywords: phrases first, then terms that appear outside those phrases
+  const phraseKeywords = keyphrases.map(({ keyword }, index) => withKeywordMetrics({
+    keyword,
+    type: 'phrase',
+    frequency: phraseFrequencies[index],
+    relevance: Math.min(100, (phraseFrequencies[index] * keyword.split(' ').length / words.length) * 1000)
+  }));
+  
+  const termKeywords = [...termGroups.entries()]
+    .filter(([key, group]) => (coveredByPhrases[key] || 0) < group.count)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, 10)
+    .map(([, group]) => {
+      const [word] = Object.entries(group.spellings).sort(([, a], [, b]) => b - a)[0];
+      return withKeywordMetrics({
+        keyword: word,
+        type: 'term',
+        frequency: group.count,
+        relevance: Math.min(100, (group.count / words.length) * 1000)
+      });
+    });
+  
+  const topKeywords = [...phraseKeywords, ...termKeywords];
+  
+  // Suggest related keywords drawn from the text and the background corpus
+  const suggestedKeywords = suggestRelatedKeywords(text, {
+    limit: 8,
+    exclude: topKeywords.map(({ keyword }) => keyword),
+    language: languageCode
+  }).map(({ keyword, relevance }) => withKeywordMetrics({
+    keyword,
+    type: keyword.includes(' ') ? 'phrase' : 'term',
+    frequency: occurrencesOf(keyword),
+    relevance
+  }));
+  
+  const allKeywords = [...topKeywords, ...suggestedKeywords];
+  
+  // Check density and placement of the keywords the user wants to rank for
+  const focus = focusKeyword
+    ? analyzeFocusKeywords(text, {
+        focusKeyword,
+        secondaryKeywords,
+        headings: document.headings.map(heading => heading.text)
+      })
+    : null;
+  
+  // Check headings, images, links and lists
+  const structure = analyzeStructure(document, { wordCount: words.length, baseUrl });
+  
+  // Check the search snippet: meta title and description length and keyword use
+  const meta = analyzeMeta({
+    title: metaTitle,
+    description: metaDescription,
+    text,
+    headings: document.headings.map(heading => heading.text),
+    focusKeyword
+  });
+  
+  // Passive voice and transition word coverage against the content guidelines (English only)
+  const style = languageCode === 'en' ? analyzeStyle(text) : null;
+  
+  // Subtopics the draft covers and the ones the background corpus expects for its topic (English only)
+  const topics = analyzeTopics(text, { focusKeyword, language: languageCode });
+  
+  const suggestions = [
+    ...(hasReadability ? [{
+      type: 'readability',
+      message: readabilityScore < 30 ? 'Text is quite difficult to read. Consider shorter sentences.' :
+              readabilityScore < 60 ? 'Text readability is moderate. Could be improved with simpler language.' :
+              'Text has good readability for general audience.',
+      priority: readabilityScore < 30 ? 'high' : readabilityScore < 60 ? 'medium' : 'low'
+    }] : []),
+    {
+      type: 'length',
+      message: words.length < 300 ? 'Content is quite short. Consider expanding for better SEO.' :
+              words.length > 2000 ? 'Content is very long. Consider breaking into sections.' :
+              'Content length is appropriate for SEO.',
+      priority: words.length < 300 || words.length > 2000 ? 'medium' : 'low'
+    },
+    {
+      type: 'keywords',
+      message: topKeywords.length < 5 ? 'Limited keyword diversity. Consider adding more relevant terms.' :
+              'Good keyword diversity detected.',
+      priority: topKeywords.length < 5 ? 'high' : 'low'
+    },
+    ...(style ? style.suggestions : []),
+    ...(focus ? focus.suggestions : []),
+    ...structure.suggestions,
+    ...meta.suggestions,
+    ...(topics ? topics.suggestions : [])
+  ];
+  
+  const analysis = {
+    language: {
+      code: languageCode,
+      name: LANGUAGES[languageCode],
+      source: detected ? 'detected' : 'provided',
+      confidence: detected ? detected.confidence : null
+    },
+    metrics: {
+      wordCount: words.length,
+      sentenceCount: sentences.length,
+      paragraphCount: paragraphs.length,
+      readabilityScore: hasReadability ? Math.round(readabilityScore) : null,
+      avgWordsPerSentence: Math.round(avgWordsPerSentence * 10) / 10,
+      avgSentencesPerParagraph: Math.round(avgSentencesPerParagraph * 10) / 10,
+      avgSyllablesPerWord: hasReadability ? Math.round(avgSyllablesPerWord * 100) / 100 : null
+    },
+    readability,
+    style: style ? style.report : null,
+    keywords: allKeywords,
+    focus: focus ? focus.report : null,
+    topics: topics ? topics.report : null,
+    structure: structure.metrics,
+    meta: meta.report,
+    // Readability issues as character ranges into the analyzed text
+    annotations: { text, ranges: annotateText(text, { language: languageCode }) },
+    suggestions
+  };
+  
+  // Weighted rule checks from the selected profile roll up into the overall score
+  const scoring = scoreAnalysis(analysis, profile);
+  
+  return { ...analysis, scoring, seoScore: scoring.score };
+}
@@ -0,0 +1,149 @@
+import { sentenceSpans } from './text.js';
+import { findPassiveVoice } from './style.js';
+
+// Sentences longer than this are hard to follow; past the second limit, very hard
+const LONG_SENTENCE_WORDS = 20;
+const VERY_LONG_SENTENCE_WORDS = 30;
+
+// This many consecutive sentences opening with the same word reads as monotonous
+const REPEATED_START_RUN = 3;
+
+// Words ending in -ly that aren't adverbs, or are too common to flag
+const NON_ADVERBS = new Set([
+  'apply', 'ally', 'belly', 'bully', 'butterfly', 'daily', 'early', 'family', 'fly', 'friendly',
+  'holy', 'italy', 'jelly', 'july', 'lonely', 'likely', 'lovely', 'monthly', 'only', 'rally', 'reply',
+  'supply', 'ugly', 'weekly', 'yearly', 'hourly', 'quarterly', 'costly', 'silly', 'jolly', 'assembly',
+  'anomaly', 'elderly', 'curly', 'lily', 'timely', 'unlikely', 'comply', 'imply', 'multiply', 'rely'
+]);
+
+// Wordy or formal phrasing and a plainer alternative
+const COMPLEX_PHRASES = {
+  'a majority of': 'most',
+  'accordingly': 'so',
+  'additional': 'more, extra',
+  'approximately': 'about',
+  'assistance': 'help',
+  'at this point in time': 'now',
+  'commence': 'start, begin',
+  'demonstrate': 'show',
+  'due to the fact that': 'because',
+  'endeavor': 'try',
+  'facilitate': 'help, ease',
+  'implement': 'do, carry out',
+  'in order to': 'to',
+  'in the event that': 'if',
+  'individuals': 'people',
+  'initial': 'first',
+  'leverage': 'use',
+  'methodology': 'method',
+  'modify': 'change',
+  'numerous': 'many',
+  'obtain': 'get',
+  'optimal': 'best',
+  'prior to': 'before',
+  'purchase': 'buy',
+  'regarding': 'about',
+  'subsequently': 'later, then',
+  'sufficient': 'enough',
+  'terminate': 'end, stop',
+  'utilize': 'use',
+  'utilization': 'use',
+  'with regard to': 'about'
+};
+
+const COMPLEX_PATTERN = new RegExp(
+  `\\b(${Object.keys(COMPLEX_PHRASES).sort((a, b) => b.length - a.length).join('|').replace(/ /g, '\\s+')})\\b`,
+  'gi'
+);
+
+const countWords = text => (text.match(/\S+/g) || []).length;
+
+function sentenceAnnotations(sentence) {
+  const words = countWords(sentence.text);
+  if (words <= LONG_SENTENCE_WORDS) return [];
+  const veryLong = words > VERY_LONG_SENTENCE_WORDS;
+  return [{
+    type: veryLong ? 'very-long-sentence' : 'long-sentence',
+    start: sentence.start,
+    end: sentence.end,
+    message: `${words} words. ${veryLong ? 'This sentence is very hard to read; split it' : 'Consider splitting this sentence'} into shorter ones.`
+  }];
+}
+
+function patternAnnotations(text, pattern, annotate) {
+  return [...text.matchAll(pattern)].map(match => annotate(match)).filter(Boolean);
+}
+
+// Opening words shared by runs of REPEATED_START_RUN or more consecutive sentences in a paragraph
+function repeatedStartAnnotations(sentences) {
+  const annotations = [];
+  let run = [];
+
+  const flush = () => {
+    if (run.length >= REPEATED_START_RUN) {
+      run.forEach(({ sentence, word }) => annotations.push({
+        type: 'repeated-start',
+        start: sentence.start,
+        end: sentence.start + word.length,
+        message: `${run.length} sentences in a row start with "${word}". Vary how your sentences open.`
+      }));
+    }
+    run = [];
+  };
+
+  sentences.forEach(sentence => {
+    const word = (sentence.text.match(/^[\p{L}\p{N}'’-]+/u) || [''])[0];
+    const previous = run[run.length - 1];
+    if (!word || (previous && (previous.word.toLowerCase() !== word.toLowerCase() ||
+        previous.sentence.paragraphIndex !== sentence.paragraphIndex))) {
+      flush();
+    }
+    if (word) run.push({ sentence, word });
+  });
+  flush();
+
+  return annotations;
+}
+
+// Character ranges of readability problems, for highlighting in an editor view.
+// Ranges index into `text` and may nest: word-level issues sit inside long sentences.
+// Sentence length and repeated starts apply to any language; the word-level checks are English.
+export function annotateText(text, { language = 'en' } = {}) {
+  const sentences = sentenceSpans(text);
+
+  const annotations = [
+    ...sentences.flatMap(sentenceAnnotations),
+    ...repeatedStartAnnotations(sentences),
+    ...(language === 'en' ? wordAnnotations(text) : [])
+  ];
+
+  return annotations.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+// Passive voice, adverbs and wordy phrases, which all rely on English word lists
+function wordAnnotations(text) {
+  return [
+    ...findPassiveVoice(text).map(range => ({
+      type: 'passive-voice',
+      start: range.start,
+      end: range.end,
+      message: `Passive voice: "${range.text}". Say who does the action to make the sentence more direct.`
+    })),
+    ...patternAnnotations(text, /\b\w+ly\b/gi, match => {
+      const word = match[0].toLowerCase();
+      if (NON_ADVERBS.has(word) || COMPLEX_PHRASES[word] || word.length <= 4) return null;
+      return {
+        type: 'adverb',
+        start: match.index,
+        end: match.index + match[0].length,
+        message: `Adverb: "${match[0]}". A stronger verb or adjective often does the job better.`
+      };
+    }),
+    ...patternAnnotations(text, COMPLEX_PATTERN, match => ({
+      type: 'complex-word',
+      start: match.index,
+      end: match.index + match[0].length,
+      message: `"${match[0]}" is more complex than it needs to be. Try: ${COMPLEX_PHRASES[match[0].toLowerCase().replace(/\s+/g, ' ')]}.`
+    }))
+  ];
+}
@@ -0,0 +1,207 @@
+import { isContentWord, tokenize } from './text.js';
+import { getStopwords } from './language.js';
+import { findPhraseMatches, matchTokens } from './phraseMatcher.js';
+import { extractKeyphrases } from './keyphrases.js';
+
+export const MAX_REFERENCES = 5;
+
+// Metrics compared side by side; deltas are the draft minus the reference average. A metric an
+// analysis doesn't have (reading ease outside English) is null and left out of the average.
+const COMPARED_METRICS = {
+  wordCount: ({ metrics }) => metrics.wordCount,
+  readabilityScore: ({ metrics }) => metrics.readabilityScore,
+  avgWordsPerSentence: ({ metrics }) => metrics.avgWordsPerSentence,
+  headingCount: ({ structure }) => structure.headings.length,
+  imageCount: ({ structure }) => structure.imageCount,
+  linkCount: ({ structure }) => structure.internalLinks + structure.externalLinks,
+  seoScore: ({ seoScore }) => seoScore
+};
+
+const GAP_LIMIT = 20;
+const PHRASES_PER_REFERENCE = 10;
+
+const round = (value, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+const average = values => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+// Content words grouped by stem, the way the keyword list counts them
+function countTerms(text, stopwords) {
+  const terms = new Map();
+  tokenize(text).forEach(token => {
+    if (token.length <= 3 || !isContentWord(token, stopwords)) return;
+    const key = matchTokens(token).join(' ');
+    const term = terms.get(key) || { count: 0, spellings: {} };
+    term.count += 1;
+    term.spellings[token] = (term.spellings[token] || 0) + 1;
+    terms.set(key, term);
+  });
+  return terms;
+}
+
+const mostUsedSpelling = spellings => Object.entries(spellings).sort(([, a], [, b]) => b - a)[0][0];
+
+// Per-thousand-word rate, so long and short documents compare fairly
+const rate = (count, wordCount) => (wordCount > 0 ? (count / wordCount) * 1000 : 0);
+
+// Terms and phrases most references use that the draft leaves out or uses far less.
+// A term counts as common when at least half the references (and at least two, given
+// two or more) contain it.
+function findTermGaps(draft, references) {
+  const stopwords = getStopwords(draft.language.code);
+  const draftText = draft.annotations.text;
+  const draftWords = draft.metrics.wordCount;
+  const draftTerms = countTerms(draftText, stopwords);
+  const draftTokens = matchTokens(draftText);
+  const minReferences = Math.max(Math.ceil(references.length / 2), Math.min(2, references.length));
+
+  const candidates = new Map();
+  const addUse = (key, keyword, type, referenceIndex, referenceRate) => {
+    const candidate = candidates.get(key) || { keyword, type, references: [], rates: [] };
+    if (!candidate.references.includes(referenceIndex)) {
+      candidate.references.push(referenceIndex);
+      candidate.rates.push(referenceRate);
+    }
+    candidates.set(key, candidate);
+  };
+
+  references.forEach((reference, index) => {
+    const text = reference.annotations.text;
+    const words = reference.metrics.wordCount;
+    countTerms(text, getStopwords(reference.language.code)).forEach((term, key) => {
+      addUse(key, mostUsedSpelling(term.spellings), 'term', index, rate(term.count, words));
+    });
+    const tokens = matchTokens(text);
+    extractKeyphrases(text, { limit: PHRASES_PER_REFERENCE, language: reference.language.code }).forEach(({ keyword }) => {
+      addUse(`phrase:${matchTokens(keyword).join(' ')}`, keyword, 'phrase', index, rate(findPhraseMatches(tokens, keyword).length, words));
+    });
+  });
+
+  const common = [...candidates.entries()].filter(([, candidate]) => candidate.references.length >= minReferences);
+
+  // A term that only shows up as part of a common phrase is reported through the phrase
+  const phrases = common
+    .filter(([, candidate]) => candidate.type === 'phrase')
+    .map(([, candidate]) => ` ${matchTokens(candidate.keyword).join(' ')} `);
+
+  return common
+    .filter(([key, candidate]) => candidate.type === 'phrase' || !phrases.some(phrase => phrase.includes(` ${key} `)))
+    .map(([key, candidate]) => {
+      const draftCount = candidate.type === 'term'
+        ? draftTerms.get(key)?.count || 0
+        : findPhraseMatches(draftTokens, candidate.keyword).length;
+      const referenceRate = average(candidate.rates);
+      const draftRate = rate(draftCount, draftWords);
+      return {
+        keyword: candidate.keyword,
+        type: candidate.type,
+        references: candidate.references.sort((a, b) => a - b),
+        referenceRate: round(referenceRate, 2),
+        draftCount,
+        draftRate: round(draftRate, 2),
+        status: draftCount === 0 ? 'missing' : 'underused',
+        // Underused means well under half the references' average rate
+        isGap: draftCount === 0 || draftRate < referenceRate / 2
+      };
+    })
+    .filter(gap => gap.isGap)
+    .sort((a, b) =>
+      (a.status === 'missing' ? 0 : 1) - (b.status === 'missing' ? 0 : 1) ||
+      b.references.length - a.references.length ||
+      b.referenceRate - a.referenceRate
+    )
+    .slice(0, GAP_LIMIT)
+    .map(({ isGap, ...gap }) => gap);
+}
+
+const headingTerms = (text, stopwords) => [...new Set(
+  tokenize(text).filter(token => isContentWord(token, stopwords)).map(token => matchTokens(token).join(' '))
+)];
+
+const overlap = (a, b) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const shared = a.filter(term => b.includes(term)).length;
+  return shared / Math.max(a.length, b.length);
+};
+
+// Section topics from the references' H2-H6 headings, merged when they share most of their
+// words, and whether the draft covers each one with a heading, only in its body, or not at all
+function findHeadingCoverage(draft, references) {
+  const stopwords = getStopwords(draft.language.code);
+  const topics = [];
+
+  references.forEach((reference, index) => {
+    reference.structure.headings
+      .filter(heading => heading.level > 1)
+      .forEach(heading => {
+        const terms = headingTerms(heading.text, stopwords);
+        if (terms.length === 0) return;
+        const topic = topics.find(existing => overlap(existing.terms, terms) >= 0.5);
+        if (topic) {
+          if (!topic.references.includes(index)) topic.references.push(index);
+        } else {
+          topics.push({ heading: heading.text, terms, references: [index] });
+        }
+      });
+  });
+
+  const draftHeadings = draft.structure.headings.map(heading => ({ text: heading.text, terms: headingTerms(heading.text, stopwords) }));
+  const draftTerms = new Set(matchTokens(draft.annotations.text));
+
+  return topics
+    .map(({ heading, terms, references: usedBy }) => {
+      const match = draftHeadings.find(draftHeading => overlap(draftHeading.terms, terms) >= 0.5);
+      const coverage = match ? 'heading' : terms.every(term => draftTerms.has(term)) ? 'text' : 'missing';
+      return { heading, references: usedBy.sort((a, b) => a - b), coverage, draftHeading: match ? match.text : null };
+    })
+    .sort((a, b) => b.references.length - a.references.length);
+}
+
+const summarize = (name, analysis) => ({
+  name,
+  language: analysis.language.code,
+  ...Object.fromEntries(Object.entries(COMPARED_METRICS).map(([metric, read]) => [metric, read(analysis)])),
+  focusDensity: analysis.focus ? analysis.focus.primary.density : null
+});
+
+// Benchmark a draft against reference documents (typically the top-ranking pages for its
+// query). Takes finished analyzeSEO results; references are [{ name, analysis }].
+export function compareDocuments(draft, references) {
+  const referenceAnalyses = references.map(reference => reference.analysis);
+  const averages = Object.fromEntries(Object.entries(COMPARED_METRICS).map(([metric, read]) => {
+    const values = referenceAnalyses.map(read).filter(value => value !== null);
+    return [metric, values.length > 0 ? round(average(values)) : null];
+  }));
+  const draftSummary = summarize('Your draft', draft);
+
+  const termGaps = findTermGaps(draft, referenceAnalyses);
+  const headingCoverage = findHeadingCoverage(draft, referenceAnalyses);
+
+  const suggestions = [];
+  const lengthRatio = averages.wordCount > 0 ? draftSummary.wordCount / averages.wordCount : 1;
+  if (lengthRatio < 0.7) {
+    suggestions.push({ type: 'comparison', message: `The draft is ${draftSummary.wordCount} words; the references average ${Math.round(averages.wordCount)}. Consider covering the topic in more depth.`, priority: 'medium' });
+  }
+  if (draftSummary.readabilityScore !== null && averages.readabilityScore !== null && draftSummary.readabilityScore < averages.readabilityScore - 10) {
+    suggestions.push({ type: 'comparison', message: `The draft is harder to read than the references (reading ease ${draftSummary.readabilityScore} vs ${Math.round(averages.readabilityScore)}).`, priority: 'medium' });
+  }
+  const missingTerms = termGaps.filter(gap => gap.status === 'missing').slice(0, 5);
+  if (missingTerms.length > 0) {
+    suggestions.push({ type: 'comparison', message: `Terms most references use but the draft doesn't: ${missingTerms.map(gap => `"${gap.keyword}"`).join(', ')}.`, priority: 'high' });
+  }
+  const missingSections = headingCoverage.filter(topic => topic.coverage === 'missing' && topic.references.length > 1);
+  if (missingSections.length > 0) {
+    suggestions.push({ type: 'comparison', message: `Sections several references include that the draft doesn't cover: ${missingSections.slice(0, 5).map(topic => `"${topic.heading}"`).join(', ')}.`, priority: 'medium' });
+  }
+
+  return {
+    draft: draftSummary,
+    references: references.map(({ name, analysis }) => summarize(name, analysis)),
+    averages,
+    deltas: Object.fromEntries(Object.keys(COMPARED_METRICS).map(metric => [
+      metric,
+      draftSummary[metric] === null || averages[metric] === null ? null : round(draftSummary[metric] - averages[metric])
+    ])),
+    termGaps,
+    headingCoverage,
+    suggestions
+  };
+}
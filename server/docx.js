@@ -0,0 +1,317 @@
+import { readZip } from './zip.js';
+import { decodeEntities, getAttribute } from './structure.js';
+
+const escapeHtml = value => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Containers whose content is left out, with the warning recorded for each one found.
+// Fallback blocks repeat their alternate content for older readers, so they're dropped silently.
+const SKIPPED_ELEMENTS = {
+  'w:txbxContent': 'text-box',
+  'm:oMathPara': 'equation',
+  'm:oMath': 'equation',
+  'w:object': 'embedded-object',
+  'mc:Fallback': null
+};
+
+// Marker elements that stand for content the conversion leaves out
+const MARKER_ELEMENTS = {
+  'w:footnoteReference': 'footnote',
+  'w:endnoteReference': 'footnote',
+  'w:commentReference': 'comment',
+  'c:chart': 'chart',
+  'dgm:relIds': 'smartart'
+};
+
+function readXml(entries, name) {
+  const entry = entries.find(candidate => candidate.name === name);
+  if (!entry) return null;
+  const { data, error } = entry.read();
+  return error ? null : data.toString('utf8');
+}
+
+// Relationship ids to targets: hyperlink URLs and image paths inside the package
+function parseRelationships(xml) {
+  const targets = new Map();
+  if (!xml) return targets;
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    targets.set(getAttribute(tag, 'Id'), getAttribute(tag, 'Target'));
+  }
+  return targets;
+}
+
+// Heading level and list numbering each paragraph style implies, following basedOn chains so
+// custom styles built on "heading 2" count as H2. Style ids are localized ("berschrift1"), so
+// levels come from the built-in style name or the outline level.
+function parseStyles(xml) {
+  const raw = new Map();
+  if (!xml) return new Map();
+  for (const [, attributes, body] of xml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const name = (getAttribute(body.match(/<w:name\b[^>]*>/)?.[0] || '', 'w:val') || '').toLowerCase();
+    const heading = name.match(/^heading (\d)$/);
+    const outline = getAttribute(body.match(/<w:outlineLvl\b[^>]*>/)?.[0] || '', 'w:val');
+    raw.set(getAttribute(` ${attributes}`, 'w:styleId'), {
+      level: heading ? Number(heading[1]) : name === 'title' ? 1 : outline !== null && Number(outline) < 9 ? Number(outline) + 1 : null,
+      numId: getAttribute(body.match(/<w:numId\b[^>]*>/)?.[0] || '', 'w:val'),
+      basedOn: getAttribute(body.match(/<w:basedOn\b[^>]*>/)?.[0] || '', 'w:val')
+    });
+  }
+
+  const resolve = (id, seen = new Set()) => {
+    const style = raw.get(id);
+    if (!style || seen.has(id)) return { level: null, numId: null };
+    seen.add(id);
+    const parent = style.basedOn ? resolve(style.basedOn, seen) : { level: null, numId: null };
+    return { level: style.level ?? parent.level, numId: style.numId ?? parent.numId };
+  };
+  return new Map([...raw.keys()].map(id => [id, resolve(id)]));
+}
+
+// Whether each list (numId) and level is bulleted or numbered
+function parseNumbering(xml) {
+  const lists = new Map();
+  if (!xml) return lists;
+  const abstract = new Map();
+  for (const [, attributes, body] of xml.matchAll(/<w:abstractNum\b([^>]*)>([\s\S]*?)<\/w:abstractNum>/g)) {
+    const levels = new Map();
+    for (const [, levelAttributes, levelBody] of body.matchAll(/<w:lvl\b([^>]*)>([\s\S]*?)<\/w:lvl>/g)) {
+      const format = getAttribute(levelBody.match(/<w:numFmt\b[^>]*>/)?.[0] || '', 'w:val');
+      levels.set(getAttribute(` ${levelAttributes}`, 'w:ilvl'), format === 'bullet' || format === 'none' ? 'ul' : 'ol');
+    }
+    abstract.set(getAttribute(` ${attributes}`, 'w:abstractNumId'), levels);
+  }
+  for (const [, attributes, body] of xml.matchAll(/<w:num\b([^>]*)>([\s\S]*?)<\/w:num>/g)) {
+    const abstractId = getAttribute(body.match(/<w:abstractNumId\b[^>]*>/)?.[0] || '', 'w:val');
+    lists.set(getAttribute(` ${attributes}`, 'w:numId'), abstract.get(abstractId) || new Map());
+  }
+  return lists;
+}
+
+// Walk document.xml and rebuild the body as simple HTML: headings from paragraph styles,
+// lists from numbering, links from hyperlink relationships and field codes, images with their
+// alt text, and tables as rows of cells
+function convertBody(xml, { relationships, styles, numbering, warn }) {
+  const blocks = [];
+  let paragraph = null;
+  let list = null;
+  let skipping = null;
+  let inText = false;
+  let drawing = null;
+  let tocPending = false;
+  const links = [];
+  const fields = [];
+
+  const closeList = () => {
+    if (list) blocks.push(`</${list.tag}>`);
+    list = null;
+  };
+  const append = html => {
+    if (paragraph) paragraph.parts.push(html);
+  };
+  const image = (src, alt) => {
+    if (src) append(`<img src="${escapeHtml(src)}"${alt ? ` alt="${escapeHtml(alt)}"` : ''}>`);
+  };
+
+  const endParagraph = () => {
+    const content = paragraph.parts.join('').trim();
+    const style = styles.get(paragraph.style) || { level: null, numId: null };
+    const level = paragraph.outlineLevel !== null && paragraph.outlineLevel < 9 ? paragraph.outlineLevel + 1 : style.level;
+    const numId = paragraph.numId ?? style.numId;
+    const listLevel = paragraph.ilvl ?? '0';
+    paragraph = null;
+    if (!content) return;
+
+    if (level) {
+      closeList();
+      const tag = `h${Math.min(level, 6)}`;
+      blocks.push(`<${tag}>${content}</${tag}>`);
+    } else if (numId && numId !== '0') {
+      if (!list || list.numId !== numId) {
+        closeList();
+        list = { numId, tag: numbering.get(numId)?.get(listLevel) || 'ul' };
+        blocks.push(`<${list.tag}>`);
+      }
+      blocks.push(`<li>${content}</li>`);
+    } else {
+      closeList();
+      blocks.push(`<p>${content}</p>`);
+    }
+  };
+
+  for (const [token, closing, name, , selfClosing, text] of xml.matchAll(/<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    if (text !== undefined) {
+      if (skipping) continue;
+      if (inText) append(escapeHtml(decodeEntities(text)));
+      else if (fields.length > 0 && fields[fields.length - 1].inInstruction) fields[fields.length - 1].instruction += decodeEntities(text);
+      continue;
+    }
+
+    if (skipping) {
+      if (name === skipping.name && !selfClosing) skipping.depth += closing ? -1 : 1;
+      if (skipping.depth === 0) skipping = null;
+      continue;
+    }
+    if (!closing && Object.hasOwn(SKIPPED_ELEMENTS, name)) {
+      if (SKIPPED_ELEMENTS[name]) warn(SKIPPED_ELEMENTS[name]);
+      if (!selfClosing) skipping = { name, depth: 1 };
+      continue;
+    }
+    if (!closing && Object.hasOwn(MARKER_ELEMENTS, name)) warn(MARKER_ELEMENTS[name]);
+
+    switch (name) {
+      case 'w:p':
+        if (closing) {
+          if (paragraph) endParagraph();
+        } else if (!selfClosing) {
+          paragraph = { style: null, numId: null, ilvl: null, outlineLevel: null, parts: [] };
+        }
+        break;
+      case 'w:pStyle':
+        if (paragraph) paragraph.style = getAttribute(token, 'w:val');
+        break;
+      case 'w:numId':
+        if (paragraph) paragraph.numId = getAttribute(token, 'w:val');
+        break;
+      case 'w:ilvl':
+        if (paragraph) paragraph.ilvl = getAttribute(token, 'w:val');
+        break;
+      case 'w:outlineLvl':
+        if (paragraph) paragraph.outlineLevel = Number(getAttribute(token, 'w:val'));
+        break;
+      case 'w:t':
+        inText = !closing && !selfClosing;
+        break;
+      case 'w:tab':
+        if (!closing) append(' ');
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (!closing) append(getAttribute(token, 'w:type') === 'page' ? ' ' : '<br>');
+        break;
+      case 'w:noBreakHyphen':
+        append('-');
+        break;
+      case 'w:hyperlink': {
+        if (closing) {
+          if (links.pop()) append('</a>');
+          break;
+        }
+        const id = getAttribute(token, 'r:id');
+        const anchor = getAttribute(token, 'w:anchor');
+        const href = id ? relationships.get(id) : anchor ? `#${anchor}` : null;
+        if (selfClosing) break;
+        links.push(Boolean(href));
+        if (href) append(`<a href="${escapeHtml(href)}">`);
+        break;
+      }
+      // Field codes: HYPERLINK fields link the text between their separate and end markers
+      case 'w:fldChar': {
+        const type = getAttribute(token, 'w:fldCharType');
+        if (type === 'begin') {
+          fields.push({ instruction: '', inInstruction: false, linked: false });
+        } else if (type === 'separate' && fields.length > 0) {
+          const field = fields[fields.length - 1];
+          const target = field.instruction.match(/^\s*HYPERLINK\s+(?:\\l\s+)?"([^"]+)"/);
+          if (target) {
+            append(`<a href="${escapeHtml(/\\l/.test(field.instruction) ? `#${target[1]}` : target[1])}">`);
+            field.linked = true;
+          }
+        } else if (type === 'end' && fields.length > 0) {
+          if (fields.pop().linked) append('</a>');
+        }
+        break;
+      }
+      case 'w:instrText':
+        if (fields.length > 0) fields[fields.length - 1].inInstruction = !closing && !selfClosing;
+        break;
+      case 'w:drawing':
+        if (closing) {
+          if (drawing) image(drawing.src, drawing.alt);
+          drawing = null;
+        } else if (!selfClosing) {
+          drawing = { src: null, alt: null };
+        }
+        break;
+      case 'wp:docPr':
+        if (drawing) drawing.alt = getAttribute(token, 'descr');
+        break;
+      case 'a:blip':
+        if (drawing) drawing.src = relationships.get(getAttribute(token, 'r:embed')) || null;
+        break;
+      // Older documents place images with VML
+      case 'v:imagedata':
+        image(relationships.get(getAttribute(token, 'r:id')), getAttribute(token, 'o:title'));
+        break;
+      case 'w:tbl':
+        closeList();
+        if (!closing) warn('table');
+        blocks.push(closing ? '</table>' : '<table>');
+        break;
+      case 'w:tr':
+        blocks.push(closing ? '</tr>' : '<tr>');
+        break;
+      case 'w:tc':
+        if (closing) closeList();
+        blocks.push(closing ? '</td>' : '<td>');
+        break;
+      case 'w:ins':
+      case 'w:del':
+        if (!closing) warn('tracked-changes');
+        break;
+      case 'w:docPartGallery':
+        if (/table of contents/i.test(getAttribute(token, 'w:val') || '')) tocPending = true;
+        break;
+      case 'w:sdtContent':
+        if (!closing && tocPending) {
+          tocPending = false;
+          warn('table-of-contents');
+          if (!selfClosing) skipping = { name, depth: 1 };
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  closeList();
+  return blocks.join('\n');
+}
+
+// Text and structure of a Word (.docx) document as HTML, with the core title and subject as
+// metadata. Returns { html, metadata, warnings } where warnings are [{ element, count }],
+// or { error } when the file isn't a readable Word document.
+export function convertDocx(buffer) {
+  const zip = readZip(buffer);
+  if (zip.error) return { error: 'The file is not a valid .docx document' };
+  const { entries } = zip;
+
+  const documentXml = readXml(entries, 'word/document.xml');
+  if (!documentXml) return { error: 'The file is not a valid .docx document' };
+
+  const counts = new Map();
+  const warn = (element, count = 1) => counts.set(element, (counts.get(element) || 0) + count);
+
+  const html = convertBody(documentXml, {
+    relationships: parseRelationships(readXml(entries, 'word/_rels/document.xml.rels')),
+    styles: parseStyles(readXml(entries, 'word/styles.xml')),
+    numbering: parseNumbering(readXml(entries, 'word/numbering.xml')),
+    warn
+  });
+
+  // Headers and footers repeat on every page, like site chrome; note them only when they hold text
+  const hasHeaderText = entries
+    .filter(entry => /^word\/(header|footer)\d*\.xml$/.test(entry.name))
+    .some(entry => /<w:t\b[^>]*>[^<]*\S/.test(readXml(entries, entry.name) || ''));
+  if (hasHeaderText) warn('header-footer');
+
+  const core = readXml(entries, 'docProps/core.xml') || '';
+  const coreValue = tag => {
+    const match = core.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+    return match ? decodeEntities(match[1]).trim() || null : null;
+  };
+
+  return {
+    html,
+    metadata: { title: coreValue('dc:title'), description: coreValue('dc:description') || coreValue('dc:subject') },
+    warnings: [...counts].map(([element, count]) => ({ element, count }))
+  };
+}
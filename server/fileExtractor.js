@@ -0,0 +1,157 @@
+import path from 'path';
+import { convertDocx } from './docx.js';
+import { extractMainContent, extractMetadata } from './pageExtractor.js';
+import { stripNonContentHtml } from './structure.js';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// File types by extension, with the analyzer format each one becomes
+const FILE_TYPES = {
+  '.docx': { type: 'docx', format: 'html' },
+  '.md': { type: 'markdown', format: 'markdown' },
+  '.markdown': { type: 'markdown', format: 'markdown' },
+  '.html': { type: 'html', format: 'html' },
+  '.htm': { type: 'html', format: 'html' },
+  '.txt': { type: 'text', format: 'text' },
+  '.text': { type: 'text', format: 'text' }
+};
+
+const CONTENT_TYPES = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'text/markdown': '.md',
+  'text/x-markdown': '.md',
+  'text/html': '.html',
+  'text/plain': '.txt'
+};
+
+// Formats people commonly try that need converting first
+const CONVERT_FIRST = { '.doc': 'Word 97-2003 (.doc)', '.pdf': 'PDF', '.odt': 'OpenDocument (.odt)', '.rtf': 'Rich Text (.rtf)', '.pages': 'Pages' };
+
+const WARNING_MESSAGES = {
+  'text-box': count => `${count} text box${count === 1 ? ' was' : 'es were'} skipped; move important text into the body.`,
+  equation: count => `${count} equation${count === 1 ? ' was' : 's were'} skipped.`,
+  'embedded-object': count => `${count} embedded object${count === 1 ? ' was' : 's were'} skipped.`,
+  footnote: count => `${count} footnote or endnote reference${count === 1 ? '' : 's'} found; note text isn't included in the analysis.`,
+  comment: count => `${count} comment${count === 1 ? '' : 's'} found; comments aren't part of the analyzed text.`,
+  chart: count => `${count} chart${count === 1 ? ' was' : 's were'} skipped; charts have no text or alt text to analyze.`,
+  smartart: count => `${count} SmartArt graphic${count === 1 ? ' was' : 's were'} skipped.`,
+  table: count => `${count} table${count === 1 ? ' was' : 's were'} flattened to text.`,
+  'tracked-changes': () => 'The document has tracked changes: deletions were ignored and insertions included.',
+  'header-footer': () => 'Page headers and footers were left out.',
+  'table-of-contents': () => 'The table of contents was left out.',
+  'inline-html': count => `${count} HTML tag${count === 1 ? '' : 's'} in the Markdown ${count === 1 ? 'was' : 'were'} read as text; headings, images and links written in HTML aren't counted.`,
+  'front-matter': () => 'Front matter was removed; its title and description are used as meta tags.',
+  embed: count => `${count} embedded frame${count === 1 ? '' : 's'}, video${count === 1 ? '' : 's'} or widget${count === 1 ? ' was' : 's were'} skipped.`,
+  form: count => `${count} form${count === 1 ? ' was' : 's were'} skipped.`,
+  boilerplate: count => `${count} navigation, header, footer or sidebar block${count === 1 ? ' was' : 's were'} removed.`,
+  encoding: () => 'The file isn\'t valid UTF-8, so it was read as Windows-1252. Check accented characters.'
+};
+
+const warning = (element, count = 1) => ({ element, count, message: WARNING_MESSAGES[element](count) });
+
+// Text files as the user saved them: UTF-8 or UTF-16 with a byte order mark, UTF-8 without
+// one, and Windows-1252 as the last resort for files from older editors
+function decodeText(data) {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return { text: data.subarray(3).toString('utf8') };
+  if (data[0] === 0xff && data[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(data.subarray(2)) };
+  if (data[0] === 0xfe && data[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(data.subarray(2)) };
+  if (data.includes(0)) return { error: 'The file looks binary, not like a text document' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(data) };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(data), warnings: [warning('encoding')] };
+  }
+}
+
+// YAML front matter ("---" block at the top): removed, keeping a title and description if set
+function splitFrontMatter(source) {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (!match) return { body: source, metadata: { title: null, description: null } };
+  const value = key => {
+    const line = match[1].match(new RegExp(`^${key}:\\s*(.+)$`, 'mi'));
+    return line ? line[1].trim().replace(/^(["'])(.*)\1$/, '$2') || null : null;
+  };
+  return { body: source.slice(match[0].length), metadata: { title: value('title'), description: value('description') }, hasFrontMatter: true };
+}
+
+function extractMarkdown(source) {
+  const { body, metadata, hasFrontMatter } = splitFrontMatter(source);
+  const warnings = hasFrontMatter ? [warning('front-matter')] : [];
+
+  const outsideCode = body.replace(/^\s*(```|~~~)[\s\S]*?^\s*\1/gm, '').replace(/`[^`\n]*`/g, '');
+  const htmlTags = (outsideCode.match(/<\/?[a-z][a-z0-9-]*\b[^>]*>/gi) || []).filter(tag => !/^<\/?(br|wbr)\b/i.test(tag)).length;
+  if (htmlTags > 0) warnings.push(warning('inline-html', htmlTags));
+  const tables = (outsideCode.match(/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/gm) || []).length;
+  if (tables > 0) warnings.push(warning('table', tables));
+
+  return { text: body, metadata, warnings };
+}
+
+// Uploaded HTML may be a bare fragment, a full export or a saved web page. Pages that mark up
+// their article keep only that; anything else keeps the whole body.
+function extractHtml(source) {
+  const metadata = extractMetadata(source);
+  const warnings = [];
+
+  const html = stripNonContentHtml(source);
+  const embeds = (html.match(/<(iframe|embed|object|video|audio|canvas)\b/gi) || []).length;
+  if (embeds > 0) warnings.push(warning('embed', embeds));
+  const forms = (html.match(/<form\b/gi) || []).length;
+  if (forms > 0) warnings.push(warning('form', forms));
+
+  const content = extractMainContent(source);
+  if (['article', 'main'].includes(content.method)) {
+    if (content.removedBlocks > 0) warnings.push(warning('boilerplate', content.removedBlocks));
+    return { text: content.html, metadata: { title: metadata.title, description: metadata.description }, warnings };
+  }
+
+  const body = html.match(/<body\b[^>]*>([\s\S]*?)(?:<\/body>|$)/i);
+  return { text: (body ? body[1] : html.replace(/<head\b[\s\S]*?<\/head>/i, '')).trim(), metadata: { title: metadata.title, description: metadata.description }, warnings };
+}
+
+const extensionOf = (filename, contentType) => {
+  const extension = path.extname(filename).toLowerCase();
+  return FILE_TYPES[extension] ? extension : CONTENT_TYPES[contentType.split(';')[0].trim().toLowerCase()] || extension;
+};
+
+// Whether extractFile would take a file, judged by its name and content type alone so that
+// files of other types can be turned away unread. Returns null or { error, reason: 'unsupported-type' }.
+export function checkFileType({ filename = '', contentType = '' }) {
+  const extension = extensionOf(filename, contentType);
+  if (FILE_TYPES[extension]) return null;
+
+  const supported = 'Upload a .docx, .md, .html or .txt file';
+  return {
+    error: CONVERT_FIRST[extension] ? `${CONVERT_FIRST[extension]} files aren't supported. ${supported}, or save the document as .docx first.` : `${supported}.`,
+    reason: 'unsupported-type'
+  };
+}
+
+// Text and structure of an uploaded document, ready for analyzeSEO. Returns
+// { type, format, text, metadata: { title, description }, warnings: [{ element, count, message }] }
+// or { error, reason } where reason is 'unsupported-type' or 'unreadable'.
+export function extractFile({ filename = '', contentType = '', data }) {
+  const unsupported = checkFileType({ filename, contentType });
+  if (unsupported) return unsupported;
+
+  const fileType = FILE_TYPES[extensionOf(filename, contentType)];
+
+  if (fileType.type === 'docx') {
+    const document = convertDocx(data);
+    if (document.error) return { error: document.error, reason: 'unreadable' };
+    return {
+      ...fileType,
+      text: document.html,
+      metadata: document.metadata,
+      warnings: document.warnings.map(({ element, count }) => warning(element, count))
+    };
+  }
+
+  const decoded = decodeText(data);
+  if (decoded.error) return { error: decoded.error, reason: 'unreadable' };
+  const extracted = fileType.type === 'markdown' ? extractMarkdown(decoded.text)
+    : fileType.type === 'html' ? extractHtml(decoded.text)
+    : { text: decoded.text, metadata: { title: null, description: null }, warnings: [] };
+
+  return { ...fileType, ...extracted, warnings: [...(decoded.warnings || []), ...extracted.warnings] };
+}
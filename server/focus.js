@@ -0,0 +1,113 @@
+import { extractHeadings, splitParagraphs, splitSentences } from './text.js';
+import { countPhrase, findPhraseMatches, matchTokens } from './phraseMatcher.js';
+
+// Keyword density (share of words taken up by the keyword) that reads naturally
+export const MIN_DENSITY = 0.5;
+export const MAX_DENSITY = 2.5;
+
+// Repeating a keyword this often within one sentence reads as stuffing
+const MAX_OCCURRENCES_PER_SENTENCE = 2;
+
+const round2 = value => Math.round(value * 100) / 100;
+
+// Where a keyword appears in the text and how dense it is
+function keywordPlacement(text, keyword, headings) {
+  const tokens = matchTokens(text);
+  const occurrences = findPhraseMatches(tokens, keyword);
+  const keywordLength = matchTokens(keyword).length;
+
+  const paragraphs = splitParagraphs(text);
+  const firstParagraph = paragraphs.find(paragraph => !extractHeadings(paragraph).length) || paragraphs[0] || '';
+
+  const edgeSize = Math.max(1, Math.ceil(tokens.length * 0.1));
+  const maxPerSentence = Math.max(0, ...splitSentences(text).map(sentence => countPhrase(sentence, keyword)));
+
+  return {
+    keyword,
+    occurrences: occurrences.length,
+    density: tokens.length > 0 ? round2((occurrences.length * keywordLength / tokens.length) * 100) : 0,
+    inFirstParagraph: countPhrase(firstParagraph, keyword),
+    inHeadings: headings.filter(heading => countPhrase(heading, keyword) > 0).length,
+    headingCount: headings.length,
+    inIntroduction: occurrences.filter(position => position < edgeSize).length,
+    inConclusion: occurrences.filter(position => position >= tokens.length - edgeSize).length,
+    maxPerSentence
+  };
+}
+
+function focusSuggestions(report, { primary }) {
+  const label = primary ? 'Focus keyword' : 'Secondary keyword';
+  const suggestions = [];
+
+  if (report.occurrences === 0) {
+    suggestions.push({
+      type: 'focus',
+      message: `${label} "${report.keyword}" does not appear in the text.`,
+      priority: primary ? 'high' : 'medium'
+    });
+    return suggestions;
+  }
+
+  if (report.occurrences > 1 && report.density > MAX_DENSITY) {
+    suggestions.push({
+      type: 'focus',
+      message: `${label} "${report.keyword}" makes up ${report.density}% of the text. Above ${MAX_DENSITY}% reads as keyword stuffing; use synonyms or remove some repetitions.`,
+      priority: 'high'
+    });
+  } else if (primary && report.density < MIN_DENSITY) {
+    suggestions.push({
+      type: 'focus',
+      message: `Focus keyword density is ${report.density}%. Aim for ${MIN_DENSITY}-${MAX_DENSITY}% by mentioning "${report.keyword}" a few more times.`,
+      priority: 'medium'
+    });
+  }
+
+  if (report.maxPerSentence > MAX_OCCURRENCES_PER_SENTENCE) {
+    suggestions.push({
+      type: 'focus',
+      message: `"${report.keyword}" is repeated ${report.maxPerSentence} times in a single sentence. Spread it across the text instead.`,
+      priority: 'high'
+    });
+  }
+
+  if (!primary) return suggestions;
+
+  if (report.inFirstParagraph === 0) {
+    suggestions.push({
+      type: 'focus',
+      message: `Mention "${report.keyword}" in the first paragraph so readers and search engines see the topic immediately.`,
+      priority: 'medium'
+    });
+  }
+  if (report.headingCount > 0 && report.inHeadings === 0) {
+    suggestions.push({
+      type: 'focus',
+      message: `None of the ${report.headingCount} headings contain "${report.keyword}". Use it in at least one subheading.`,
+      priority: 'medium'
+    });
+  }
+  if (report.inConclusion === 0) {
+    suggestions.push({
+      type: 'focus',
+      message: `"${report.keyword}" doesn't appear in the last 10% of the text. Reinforce it in the conclusion.`,
+      priority: 'low'
+    });
+  }
+
+  return suggestions;
+}
+
+// Placement report for the keyword the user wants to rank for, plus any secondary keywords.
+// Headings come from the parsed document; plain text falls back to guessing them from layout.
+export function analyzeFocusKeywords(text, { focusKeyword, secondaryKeywords = [], headings = extractHeadings(text) }) {
+  const primary = keywordPlacement(text, focusKeyword, headings);
+  const secondary = secondaryKeywords.map(keyword => keywordPlacement(text, keyword, headings));
+
+  return {
+    report: { primary, secondary },
+    suggestions: [
+      ...focusSuggestions(primary, { primary: true }),
+      ...secondary.flatMap(report => focusSuggestions(report, { primary: false }))
+    ]
+  };
+}
@@ -1,184 +1,356 @@
+import path from 'path';
 import express from 'express';
 import cors from 'cors';
+import { analyzeSEO } from './analyzer.js';
+import { getKeywordMetricsProvider } from './keywordMetrics.js';
+import { LANGUAGES } from './language.js';
+import { DOCUMENT_FORMATS } from './structure.js';
+import { insertKeywordIntelligently, insertKeywords } from './insertion.js';
+import { DEFAULT_RULE_PROFILE, getRuleProfile, listRuleProfiles, parseRuleProfile, saveRuleProfile } from './rules.js';
+import { MAX_PROJECT_NAME_LENGTH, getProjectStore } from './projects.js';
+import { getPageFetcher } from './pageFetcher.js';
+import { extractMainContent, extractMetadata, metadataSuggestions } from './pageExtractor.js';
+import { MAX_REFERENCES, compareDocuments } from './compare.js';
+import { parseMultipart } from './multipart.js';
+import { MAX_UPLOAD_BYTES, checkFileType, extractFile } from './fileExtractor.js';
+import { DEFAULT_BRAND, REPORT_FORMATS, renderReport, validateReportAnalysis } from './report.js';
+import { JOB_RESULT_FORMATS, MAX_JOB_DOCUMENTS, getJobQueue } from './jobs.js';
+import { readZip } from './zip.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const projects = getProjectStore();
+const jobs = getJobQueue();
 
 // Middleware
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 
-// Mock SEO analysis function (simulating external API)
-function analyzeSEO(text) {
-  // Calculate basic readability metrics
-  const words = text.split(/\s+/).filter(word => word.length > 0);
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+// Fetched pages and uploaded documents keep their markup, so the limit leaves room for it. The
+// editor shares the same limit, since their extracted content is re-analyzed from there.
+const MAX_TEXT_LENGTH = 500000;
+
+// Validate an analysis request body and normalize it into analyzeSEO options
+function parseAnalysisRequest(body) {
+  const { text, format = 'text', language = 'auto', ruleProfile = DEFAULT_RULE_PROFILE, focusKeyword, secondaryKeywords = [], metaTitle, metaDescription } = body;
   
-  const avgWordsPerSentence = sentences.length > 0 ? words.length / sentences.length : 0;
-  const avgSentencesPerParagraph = paragraphs.length > 0 ? sentences.length / paragraphs.length : 0;
+  if (!text || typeof text !== 'string' || text.trim().length === 0) {
+    return { error: 'Text is required' };
+  }
   
-  // Calculate readability score (simplified Flesch Reading Ease)
-  const avgSentenceLength = avgWordsPerSentence;
-  const avgSyllablesPerWord = 1.5; // Simplified assumption
-  const readabilityScore = Math.max(0, Math.min(100, 
-    206.835 - (1.015 * avgSentenceLength) - (84.6 * avgSyllablesPerWord)
-  ));
+  if (text.length > MAX_TEXT_LENGTH) {
+    return { error: `Text is too long (max ${MAX_TEXT_LENGTH.toLocaleString('en-US')} characters)` };
+  }
   
-  // Generate keyword suggestions based on text analysis
-  const commonWords = ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'can', 'must', 'shall', 'a', 'an', 'this', 'that', 'these', 'those'];
+  if (!DOCUMENT_FORMATS.includes(format)) {
+    return { error: `Format must be one of: ${DOCUMENT_FORMATS.join(', ')}` };
+  }
   
-  const wordFreq = {};
-  words.forEach(word => {
-    const cleanWord = word.toLowerCase().replace(/[^\w]/g, '');
-    if (cleanWord.length > 3 && !commonWords.includes(cleanWord)) {
-      wordFreq[cleanWord] = (wordFreq[cleanWord] || 0) + 1;
-    }
-  });
+  if (language !== 'auto' && !Object.hasOwn(LANGUAGES, language)) {
+    return { error: `Language must be "auto" or one of: ${Object.keys(LANGUAGES).join(', ')}` };
+  }
+  
+  if (typeof ruleProfile !== 'string' || !getRuleProfile(ruleProfile)) {
+    return { error: `Rule profile must be one of: ${listRuleProfiles().map(profile => profile.id).join(', ')}` };
+  }
   
-  // Get top keywords
-  const topKeywords = Object.entries(wordFreq)
-    .sort(([,a], [,b]) => b - a)
-    .slice(0, 10)
-    .map(([word, freq]) => ({
-      keyword: word,
-      frequency: freq,
-      relevance: Math.min(100, (freq / words.length) * 1000),
-      searchVolume: Math.floor(Math.random() * 10000) + 100,
-      difficulty: Math.floor(Math.random() * 100) + 1
-    }));
-  
-  // Generate additional suggested keywords
-  const suggestedKeywords = [
-    'digital marketing', 'content strategy', 'SEO optimization', 'online presence',
-    'brand awareness', 'user engagement', 'conversion rate', 'social media',
-    'target audience', 'market research', 'competitive analysis', 'growth hacking'
-  ].map(keyword => ({
-    keyword,
-    frequency: 0,
-    relevance: Math.floor(Math.random() * 80) + 20,
-    searchVolume: Math.floor(Math.random() * 50000) + 1000,
-    difficulty: Math.floor(Math.random() * 100) + 1
-  }));
-  
-  const allKeywords = [...topKeywords, ...suggestedKeywords.slice(0, 8)];
+  if (focusKeyword !== undefined && typeof focusKeyword !== 'string') {
+    return { error: 'Focus keyword must be a string' };
+  }
+  
+  if (!Array.isArray(secondaryKeywords) || secondaryKeywords.some(keyword => typeof keyword !== 'string')) {
+    return { error: 'Secondary keywords must be an array of strings' };
+  }
+  
+  if (secondaryKeywords.length > 10) {
+    return { error: 'Too many secondary keywords (max 10)' };
+  }
+  
+  if ((metaTitle !== undefined && typeof metaTitle !== 'string') ||
+      (metaDescription !== undefined && typeof metaDescription !== 'string')) {
+    return { error: 'Meta title and description must be strings' };
+  }
+  
+  if ((metaTitle?.length || 0) > 300 || (metaDescription?.length || 0) > 1000) {
+    return { error: 'Meta title or description is too long' };
+  }
   
   return {
-    metrics: {
-      wordCount: words.length,
-      sentenceCount: sentences.length,
-      paragraphCount: paragraphs.length,
-      readabilityScore: Math.round(readabilityScore),
-      avgWordsPerSentence: Math.round(avgWordsPerSentence * 10) / 10,
-      avgSentencesPerParagraph: Math.round(avgSentencesPerParagraph * 10) / 10
-    },
-    keywords: allKeywords,
-    suggestions: [
-      {
-        type: 'readability',
-        message: readabilityScore < 30 ? 'Text is quite difficult to read. Consider shorter sentences.' :
-                readabilityScore < 60 ? 'Text readability is moderate. Could be improved with simpler language.' :
-                'Text has good readability for general audience.',
-        priority: readabilityScore < 30 ? 'high' : readabilityScore < 60 ? 'medium' : 'low'
-      },
-      {
-        type: 'length',
-        message: words.length < 300 ? 'Content is quite short. Consider expanding for better SEO.' :
-                words.length > 2000 ? 'Content is very long. Consider breaking into sections.' :
-                'Content length is appropriate for SEO.',
-        priority: words.length < 300 || words.length > 2000 ? 'medium' : 'low'
-      },
-      {
-        type: 'keywords',
-        message: topKeywords.length < 5 ? 'Limited keyword diversity. Consider adding more relevant terms.' :
-                'Good keyword diversity detected.',
-        priority: topKeywords.length < 5 ? 'high' : 'low'
-      }
-    ]
+    text,
+    options: {
+      format,
+      language,
+      ruleProfile,
+      focusKeyword: focusKeyword?.trim() || undefined,
+      secondaryKeywords: secondaryKeywords.map(keyword => keyword.trim()).filter(Boolean),
+      metaTitle: metaTitle?.trim() || undefined,
+      metaDescription: metaDescription?.trim() || undefined
+    }
   };
 }
 
-// Smart keyword insertion function
-function insertKeywordIntelligently(text, keyword) {
-  const sentences = text.split(/([.!?]+\s*)/);
-  const words = text.toLowerCase().split(/\s+/);
-  
-  // Don't insert if keyword already exists
-  if (words.some(word => word.includes(keyword.toLowerCase()))) {
-    return text;
+// API Routes
+app.post('/api/analyze', async (req, res) => {
+  try {
+    const request = parseAnalysisRequest(req.body);
+    
+    if (request.error) {
+      return res.status(400).json({ error: request.error });
+    }
+    
+    const analysis = analyzeSEO(request.text, request.options);
+    
+    res.json({
+      success: true,
+      data: analysis
+    });
+    
+  } catch (error) {
+    console.error('Analysis error:', error);
+    res.status(500).json({ 
+      error: 'Failed to analyze text',
+      details: error.message 
+    });
   }
-  
-  // Find the best position to insert the keyword
-  let bestPosition = 0;
-  let bestScore = 0;
-  
-  for (let i = 0; i < sentences.length; i += 2) { // Only check actual sentences, not punctuation
-    const sentence = sentences[i];
-    if (!sentence || sentence.trim().length < 10) continue;
+});
+
+// Fetch failures the caller can fix are bad requests; the rest are the remote page's fault
+const FETCH_FAILURE_STATUS = { 'invalid-url': 400, 'blocked-host': 400, timeout: 504 };
+
+app.post('/api/analyze-url', async (req, res) => {
+  try {
+    const { url } = req.body;
+    
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({ error: 'URL is required' });
+    }
+    
+    const page = await getPageFetcher().fetchPage(url.trim());
+    
+    if (!page.ok) {
+      return res.status(FETCH_FAILURE_STATUS[page.reason] || 502).json({ error: page.message, reason: page.reason });
+    }
     
-    const sentenceWords = sentence.toLowerCase().split(/\s+/);
-    const position = sentence.length / 2; // Middle of sentence
+    const metadata = extractMetadata(page.html, page.url);
+    const content = extractMainContent(page.html);
     
-    // Score based on sentence length and position in text
-    const lengthScore = Math.min(sentenceWords.length / 20, 1); // Prefer longer sentences
-    const positionScore = 1 - (Math.abs(i - sentences.length / 2) / sentences.length); // Prefer middle of text
-    const score = lengthScore * 0.6 + positionScore * 0.4;
+    // The page's own head tags stand in for the meta fields of a pasted draft
+    const request = parseAnalysisRequest({
+      ...req.body,
+      text: content.html,
+      format: 'html',
+      metaTitle: metadata.title?.slice(0, 300) || undefined,
+      metaDescription: metadata.description?.slice(0, 1000) || undefined
+    });
     
-    if (score > bestScore) {
-      bestScore = score;
-      bestPosition = i;
+    if (request.error) {
+      return res.status(request.error === 'Text is required' ? 422 : 400).json({
+        error: request.error === 'Text is required' ? 'No readable content found on the page' : request.error
+      });
     }
+    
+    const analysis = analyzeSEO(request.text, { ...request.options, baseUrl: page.url });
+    
+    res.json({
+      success: true,
+      data: {
+        ...analysis,
+        suggestions: [...analysis.suggestions, ...metadataSuggestions(metadata, page.url)],
+        page: {
+          url: page.url,
+          status: page.status,
+          content: content.html,
+          metadata,
+          extraction: { method: content.method, removedBlocks: content.removedBlocks }
+        }
+      }
+    });
+    
+  } catch (error) {
+    console.error('URL analysis error:', error);
+    res.status(500).json({ 
+      error: 'Failed to analyze URL',
+      details: error.message 
+    });
   }
-  
-  // Insert keyword naturally into the best sentence
-  if (bestPosition < sentences.length && sentences[bestPosition]) {
-    const sentence = sentences[bestPosition];
-    const words = sentence.split(/\s+/);
+});
+
+// Fields of the upload form that map onto the analyze request; secondaryKeywords may repeat
+const UPLOAD_FIELDS = ['language', 'ruleProfile', 'focusKeyword', 'metaTitle', 'metaDescription'];
+
+app.post('/api/analyze-file', express.raw({ type: 'multipart/form-data', limit: MAX_UPLOAD_BYTES }), async (req, res) => {
+  try {
+    const upload = parseMultipart(req.body, req.headers['content-type']);
+    
+    if (upload.error) {
+      return res.status(400).json({ error: upload.error });
+    }
+    
+    const file = upload.files.find(part => part.field === 'file');
+    if (!file || file.data.length === 0) {
+      return res.status(400).json({ error: 'A file is required' });
+    }
+    
+    const extracted = extractFile(file);
+    
+    if (extracted.error) {
+      return res.status(extracted.reason === 'unsupported-type' ? 415 : 422).json({ error: extracted.error, reason: extracted.reason });
+    }
     
-    // Find a good insertion point (avoid beginning and end)
-    const insertIndex = Math.floor(words.length * 0.3) + Math.floor(Math.random() * Math.floor(words.length * 0.4));
+    // Meta tags entered in the form win over the ones the document carries
+    const fields = Object.fromEntries(UPLOAD_FIELDS.filter(name => upload.fields[name]).map(name => [name, upload.fields[name][0]]));
+    const request = parseAnalysisRequest({
+      ...fields,
+      secondaryKeywords: upload.fields.secondaryKeywords || [],
+      text: extracted.text,
+      format: extracted.format,
+      metaTitle: fields.metaTitle?.trim() || extracted.metadata.title?.slice(0, 300) || undefined,
+      metaDescription: fields.metaDescription?.trim() || extracted.metadata.description?.slice(0, 1000) || undefined
+    });
     
-    // Create natural insertion
-    const beforeKeyword = words.slice(0, insertIndex).join(' ');
-    const afterKeyword = words.slice(insertIndex).join(' ');
+    if (request.error) {
+      return res.status(request.error === 'Text is required' ? 422 : 400).json({
+        error: request.error === 'Text is required' ? 'No readable text found in the file' : request.error
+      });
+    }
     
-    // Add connecting words for natural flow
-    const connectors = ['including', 'such as', 'like', 'especially', 'particularly'];
-    const connector = connectors[Math.floor(Math.random() * connectors.length)];
+    const analysis = analyzeSEO(request.text, request.options);
     
-    sentences[bestPosition] = `${beforeKeyword} ${connector} ${keyword} ${afterKeyword}`;
+    res.json({
+      success: true,
+      data: {
+        ...analysis,
+        file: {
+          name: file.filename,
+          type: extracted.type,
+          size: file.data.length,
+          format: extracted.format,
+          content: extracted.text,
+          metadata: extracted.metadata,
+          warnings: extracted.warnings
+        }
+      }
+    });
+    
+  } catch (error) {
+    console.error('File analysis error:', error);
+    res.status(500).json({ 
+      error: 'Failed to analyze file',
+      details: error.message 
+    });
+  }
+});
+
+// Validate the report options; the analysis itself is checked separately
+function parseReportOptions(format, { updatedText, title, brand = {} }) {
+  if (!REPORT_FORMATS.includes(format)) {
+    return { error: `Report format must be one of: ${REPORT_FORMATS.join(', ')}` };
+  }
+  
+  if (updatedText !== undefined && (typeof updatedText !== 'string' || updatedText.length > MAX_TEXT_LENGTH)) {
+    return { error: `Updated text must be a string of at most ${MAX_TEXT_LENGTH.toLocaleString('en-US')} characters` };
   }
   
-  return sentences.join('');
+  if (title !== undefined && (typeof title !== 'string' || title.length > 200)) {
+    return { error: 'Title must be a string of at most 200 characters' };
+  }
+  
+  if (typeof brand !== 'object' || brand === null ||
+      (brand.name !== undefined && (typeof brand.name !== 'string' || brand.name.length > 80)) ||
+      (brand.color !== undefined && !/^#[0-9a-f]{6}$/i.test(brand.color))) {
+    return { error: 'Brand must have a name of at most 80 characters and a color like "#2563eb"' };
+  }
+  
+  return {
+    format,
+    options: {
+      updatedText,
+      title: title?.trim() || undefined,
+      brand: { name: brand.name?.trim() || DEFAULT_BRAND.name, color: brand.color || DEFAULT_BRAND.color }
+    }
+  };
 }
 
-// API Routes
-app.post('/api/analyze', async (req, res) => {
+// Downloadable report of an analysis in the format named by the path. Send a result from the
+// analyze endpoints as `analysis` to report on it as-is, or the /api/analyze fields (whose
+// `format` is the document's) to analyze the text first.
+app.post('/api/report/:format', (req, res) => {
+  try {
+    const report = parseReportOptions(req.params.format, req.body);
+    
+    if (report.error) {
+      return res.status(400).json({ error: report.error });
+    }
+    
+    let analysis = req.body.analysis;
+    if (analysis !== undefined) {
+      const error = validateReportAnalysis(analysis);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+    } else {
+      const request = parseAnalysisRequest(req.body);
+      if (request.error) {
+        return res.status(400).json({ error: request.error });
+      }
+      analysis = analyzeSEO(request.text, request.options);
+    }
+    
+    const { body, contentType, filename } = renderReport(analysis, report.format, report.options);
+    
+    res.type(contentType);
+    res.attachment(filename);
+    res.send(body);
+    
+  } catch (error) {
+    console.error('Report error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate report',
+      details: error.message 
+    });
+  }
+});
+
+app.post('/api/compare', async (req, res) => {
   try {
-    const { text } = req.body;
+    const { references } = req.body;
+    const request = parseAnalysisRequest(req.body);
     
-    if (!text || text.trim().length === 0) {
-      return res.status(400).json({ error: 'Text is required' });
+    if (request.error) {
+      return res.status(400).json({ error: request.error });
     }
     
-    if (text.length > 50000) {
-      return res.status(400).json({ error: 'Text is too long (max 50,000 characters)' });
+    if (!Array.isArray(references) || references.length === 0) {
+      return res.status(400).json({ error: 'At least one reference text is required' });
     }
     
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    if (references.length > MAX_REFERENCES) {
+      return res.status(400).json({ error: `Too many reference texts (max ${MAX_REFERENCES})` });
+    }
+    
+    // References are scored with the draft's language, profile and keywords, but not its meta tags
+    const { metaTitle, metaDescription, ...referenceOptions } = request.options;
+    const referenceAnalyses = [];
+    for (const [index, reference] of references.entries()) {
+      const name = typeof reference?.name === 'string' && reference.name.trim() ? reference.name.trim().slice(0, 100) : `Reference ${index + 1}`;
+      const parsed = parseAnalysisRequest({ ...referenceOptions, text: reference?.text, format: reference?.format });
+      if (parsed.error) {
+        return res.status(400).json({ error: `${name}: ${parsed.error}` });
+      }
+      referenceAnalyses.push({ name, analysis: analyzeSEO(parsed.text, parsed.options) });
+    }
     
-    const analysis = analyzeSEO(text);
+    const comparison = compareDocuments(analyzeSEO(request.text, request.options), referenceAnalyses);
     
     res.json({
       success: true,
-      data: analysis
+      data: comparison
     });
     
   } catch (error) {
-    console.error('Analysis error:', error);
+    console.error('Comparison error:', error);
     res.status(500).json({ 
-      error: 'Failed to analyze text',
+      error: 'Failed to compare texts',
       details: error.message 
     });
   }
@@ -186,33 +358,548 @@ app.post('/api/analyze', async (req, res) => {
 
 app.post('/api/insert-keyword', async (req, res) => {
   try {
-    const { text, keyword } = req.body;
+    const { text, keyword, position } = req.body;
     
-    if (!text || !keyword) {
+    if (typeof text !== 'string' || !text.trim() || typeof keyword !== 'string' || !keyword.trim()) {
       return res.status(400).json({ error: 'Text and keyword are required' });
     }
     
-    const updatedText = insertKeywordIntelligently(text, keyword);
+    if (position !== undefined && !Number.isInteger(position)) {
+      return res.status(400).json({ error: 'Position must be an integer character offset' });
+    }
+    
+    const result = insertKeywordIntelligently(text, keyword, { position });
+    
+    if (result.reason === 'invalid-position') {
+      return res.status(400).json({ error: 'Position is not one of the candidate insertion points' });
+    }
+    
+    res.json({
+      success: true,
+      data: result
+    });
+    
+  } catch (error) {
+    console.error('Keyword insertion error:', error);
+    res.status(500).json({ 
+      error: 'Failed to insert keyword',
+      details: error.message 
+    });
+  }
+});
+
+app.post('/api/insert-keywords', async (req, res) => {
+  try {
+    const { text, keywords, maxDensity } = req.body;
+    
+    if (typeof text !== 'string' || !text.trim() || !Array.isArray(keywords) || keywords.length === 0) {
+      return res.status(400).json({ error: 'Text and a list of keywords are required' });
+    }
+    
+    if (keywords.some(keyword => typeof keyword !== 'string' || keyword.trim().length === 0)) {
+      return res.status(400).json({ error: 'Keywords must be non-empty strings' });
+    }
+    
+    if (keywords.length > 20) {
+      return res.status(400).json({ error: 'Too many keywords (max 20)' });
+    }
+    
+    if (maxDensity !== undefined && (typeof maxDensity !== 'number' || !(maxDensity > 0) || maxDensity > 100)) {
+      return res.status(400).json({ error: 'Max density must be a percentage between 0 and 100' });
+    }
+    
+    const { updatedText, results } = insertKeywords(text, keywords, { maxDensity });
     
     res.json({
       success: true,
       data: {
         updatedText,
-        inserted: updatedText !== text
+        inserted: results.filter(result => result.inserted).length,
+        results
       }
     });
     
   } catch (error) {
-    console.error('Keyword insertion error:', error);
+    console.error('Batch keyword insertion error:', error);
     res.status(500).json({ 
-      error: 'Failed to insert keyword',
+      error: 'Failed to insert keywords',
+      details: error.message 
+    });
+  }
+});
+
+app.get('/api/rule-profiles', (req, res) => {
+  res.json({
+    success: true,
+    data: listRuleProfiles()
+  });
+});
+
+// Add a team's own rule profile; it is validated and kept for later analyses
+app.post('/api/rule-profiles', (req, res) => {
+  let profile;
+  try {
+    profile = parseRuleProfile(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  if (getRuleProfile(profile.id)?.source === 'built-in') {
+    return res.status(409).json({ error: `"${profile.id}" is a built-in profile; choose another id` });
+  }
+  
+  try {
+    res.status(201).json({
+      success: true,
+      data: saveRuleProfile(profile)
+    });
+    
+  } catch (error) {
+    console.error('Rule profile error:', error);
+    res.status(500).json({ 
+      error: 'Failed to save rule profile',
+      details: error.message 
+    });
+  }
+});
+
+// Project names are trimmed; returns an error message for anything unusable
+function validateProjectName(name) {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Project name is required';
+  }
+  if (name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+    return `Project name is too long (max ${MAX_PROJECT_NAME_LENGTH} characters)`;
+  }
+  return null;
+}
+
+app.get('/api/projects', (req, res) => {
+  res.json({
+    success: true,
+    data: projects.list()
+  });
+});
+
+app.post('/api/projects', (req, res) => {
+  try {
+    const nameError = validateProjectName(req.body.name);
+    
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+    
+    res.status(201).json({
+      success: true,
+      data: projects.create(req.body.name.trim())
+    });
+    
+  } catch (error) {
+    console.error('Project creation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create project',
+      details: error.message 
+    });
+  }
+});
+
+app.get('/api/projects/:id', (req, res) => {
+  const project = projects.get(req.params.id);
+  
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  res.json({
+    success: true,
+    data: project
+  });
+});
+
+app.patch('/api/projects/:id', (req, res) => {
+  try {
+    const nameError = validateProjectName(req.body.name);
+    
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+    
+    const project = projects.rename(req.params.id, req.body.name.trim());
+    
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    res.json({
+      success: true,
+      data: project
+    });
+    
+  } catch (error) {
+    console.error('Project rename error:', error);
+    res.status(500).json({ 
+      error: 'Failed to rename project',
+      details: error.message 
+    });
+  }
+});
+
+app.delete('/api/projects/:id', (req, res) => {
+  try {
+    if (!projects.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    res.json({ success: true });
+    
+  } catch (error) {
+    console.error('Project deletion error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete project',
+      details: error.message 
+    });
+  }
+});
+
+// Analyze the draft and store it, with its settings and results, as the project's next version
+app.post('/api/projects/:id/snapshots', (req, res) => {
+  try {
+    if (!projects.get(req.params.id)) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    const request = parseAnalysisRequest(req.body);
+    
+    if (request.error) {
+      return res.status(400).json({ error: request.error });
+    }
+    
+    const snapshot = projects.addSnapshot(req.params.id, {
+      text: request.text,
+      settings: request.options,
+      analysis: analyzeSEO(request.text, request.options)
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: snapshot
+    });
+    
+  } catch (error) {
+    console.error('Snapshot error:', error);
+    res.status(500).json({ 
+      error: 'Failed to save snapshot',
+      details: error.message 
+    });
+  }
+});
+
+app.get('/api/projects/:id/snapshots/:version', (req, res) => {
+  const snapshot = projects.getSnapshot(req.params.id, Number(req.params.version));
+  
+  if (!snapshot) {
+    return res.status(404).json({ error: 'Snapshot not found' });
+  }
+  
+  res.json({
+    success: true,
+    data: snapshot
+  });
+});
+
+// Batch jobs
+const MAX_JOB_NAME_LENGTH = 100;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+// Caps across every archive in an upload, so a small one can't expand without limit
+const MAX_BATCH_FILES = 2000;
+const MAX_BATCH_BYTES = 200 * 1024 * 1024;
+
+// Settings every document of a batch shares; documents in a JSON batch may override them
+const JOB_SETTINGS = ['language', 'ruleProfile', 'focusKeyword', 'secondaryKeywords'];
+
+// Archive entries that are never documents: folders, macOS resource forks, hidden files
+const isArchiveClutter = entry => entry.isDirectory || /(^|\/)(__MACOSX\/|\.)/.test(entry.name);
+
+const isZip = file => path.extname(file.filename).toLowerCase() === '.zip' ||
+  ['application/zip', 'application/x-zip-compressed'].includes(file.contentType.toLowerCase());
+
+// Queue an analysis with the rule profile resolved now, so a worker thread needs no lookup
+// and a resumed job scores the way it was submitted
+const jobDocument = (name, request, warnings = []) => ({
+  name,
+  text: request.text,
+  options: { ...request.options, profile: getRuleProfile(request.options.ruleProfile) },
+  warnings
+});
+
+// Documents of a JSON batch, each with the same fields as /api/analyze plus an optional name
+function parseJobDocuments(documents, settings) {
+  if (!Array.isArray(documents) || documents.length === 0) {
+    return { error: 'Documents must be a non-empty array' };
+  }
+  
+  const parsed = [];
+  
+  for (const [index, document] of documents.entries()) {
+    if (!document || typeof document !== 'object' || (document.name !== undefined && typeof document.name !== 'string')) {
+      return { error: `Document ${index + 1} must be an object with an optional string name` };
+    }
+    const name = document.name?.trim().slice(0, 200) || `Document ${index + 1}`;
+    const request = parseAnalysisRequest({ ...settings, ...document });
+    if (request.error) {
+      return { error: `Document ${index + 1} (${name}): ${request.error}` };
+    }
+    parsed.push(jobDocument(name, request));
+  }
+  
+  return { documents: parsed, skipped: [] };
+}
+
+// Uploaded files for a batch: ZIP archives are unpacked and every file is extracted like
+// /api/analyze-file. Files that can't be read become failed documents; files of other types
+// are skipped.
+function extractJobFiles(files, settings) {
+  const documents = [];
+  const skipped = [];
+  
+  const addFile = file => {
+    const extracted = extractFile(file);
+    if (extracted.error) {
+      if (extracted.reason === 'unsupported-type') skipped.push({ name: file.filename, error: extracted.error });
+      else documents.push({ name: file.filename, error: extracted.error });
+      return null;
+    }
+    
+    const request = parseAnalysisRequest({
+      ...settings,
+      text: extracted.text,
+      format: extracted.format,
+      metaTitle: extracted.metadata.title?.slice(0, 300) || undefined,
+      metaDescription: extracted.metadata.description?.slice(0, 1000) || undefined
+    });
+    
+    // Only the text differs between files, so any other problem is in the shared settings
+    if (request.error && !request.error.startsWith('Text ')) return request.error;
+    documents.push(request.error
+      ? { name: file.filename, error: request.error === 'Text is required' ? 'No readable text found in the file' : request.error }
+      : jobDocument(file.filename, request, extracted.warnings));
+    return null;
+  };
+  
+  let fileCount = 0;
+  let unpackedBytes = 0;
+  const tooLarge = { error: `The archives unpack to more than ${MAX_BATCH_BYTES / 1024 / 1024} MB` };
+  
+  for (const file of files) {
+    if (!isZip(file)) {
+      const error = addFile(file);
+      if (error) return { error };
+      continue;
+    }
+    
+    const archive = readZip(file.data, { maxEntryBytes: MAX_UPLOAD_BYTES });
+    if (archive.error) {
+      return { error: `${file.filename}: ${archive.error}` };
+    }
+    
+    for (const entry of archive.entries.filter(entry => !isArchiveClutter(entry))) {
+      if (documents.length > MAX_JOB_DOCUMENTS) break;
+      if (++fileCount > MAX_BATCH_FILES) {
+        return { error: `The upload has too many files (max ${MAX_BATCH_FILES})` };
+      }
+      
+      // Files of other types are skipped without being unpacked
+      const unsupported = checkFileType({ filename: entry.name });
+      if (unsupported) {
+        skipped.push({ name: entry.name, error: unsupported.error });
+        continue;
+      }
+      
+      if (unpackedBytes + entry.size > MAX_BATCH_BYTES) {
+        return tooLarge;
+      }
+      const content = entry.read();
+      if (content.error) {
+        documents.push({ name: entry.name, error: content.error });
+        continue;
+      }
+      // The declared size can understate what an entry inflates to
+      unpackedBytes += content.data.length;
+      if (unpackedBytes > MAX_BATCH_BYTES) {
+        return tooLarge;
+      }
+      const error = addFile({ filename: entry.name, contentType: '', data: content.data });
+      if (error) return { error };
+    }
+  }
+  
+  return { documents, skipped };
+}
+
+app.post('/api/jobs', express.raw({ type: 'multipart/form-data', limit: MAX_ARCHIVE_BYTES }), (req, res) => {
+  try {
+    let name;
+    let settings;
+    let batch;
+    
+    if (req.is('multipart/form-data')) {
+      const upload = parseMultipart(req.body, req.headers['content-type']);
+      
+      if (upload.error) {
+        return res.status(400).json({ error: upload.error });
+      }
+      
+      const files = upload.files.filter(part => part.field === 'files' && part.data.length > 0);
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'Upload at least one file or ZIP archive as "files"' });
+      }
+      
+      name = upload.fields.name?.[0];
+      settings = Object.fromEntries(JOB_SETTINGS.filter(key => upload.fields[key]).map(key => [key, key === 'secondaryKeywords' ? upload.fields[key] : upload.fields[key][0]]));
+      batch = extractJobFiles(files, settings);
+    } else {
+      name = req.body.name;
+      settings = Object.fromEntries(JOB_SETTINGS.filter(key => req.body[key] !== undefined).map(key => [key, req.body[key]]));
+      batch = parseJobDocuments(req.body.documents, settings);
+    }
+    
+    if (batch.error) {
+      return res.status(400).json({ error: batch.error });
+    }
+    
+    if (batch.documents.length === 0) {
+      return res.status(422).json({ error: 'No documents to analyze were found', skipped: batch.skipped });
+    }
+    
+    if (batch.documents.length > MAX_JOB_DOCUMENTS) {
+      return res.status(400).json({ error: `Too many documents (max ${MAX_JOB_DOCUMENTS} per job)` });
+    }
+    
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > MAX_JOB_NAME_LENGTH)) {
+      return res.status(400).json({ error: `Job name must be a string of at most ${MAX_JOB_NAME_LENGTH} characters` });
+    }
+    
+    const job = jobs.submit({
+      name: name?.trim() || null,
+      settings,
+      documents: batch.documents,
+      skipped: batch.skipped
+    });
+    
+    res.status(202).location(`/api/jobs/${job.id}`).json({
+      success: true,
+      data: job
+    });
+    
+  } catch (error) {
+    console.error('Job creation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create job',
+      details: error.message 
+    });
+  }
+});
+
+app.get('/api/jobs', (req, res) => {
+  res.json({
+    success: true,
+    data: jobs.list()
+  });
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  res.json({
+    success: true,
+    data: job
+  });
+});
+
+app.get('/api/jobs/:id/documents/:index', (req, res) => {
+  const document = jobs.getDocument(req.params.id, Number(req.params.index));
+  
+  if (!document) {
+    return res.status(404).json({ error: 'Document not found' });
+  }
+  
+  res.json({
+    success: true,
+    data: document
+  });
+});
+
+// Results so far; a running job's file lists its unfinished documents by status
+app.get('/api/jobs/:id/results/:format', (req, res) => {
+  try {
+    const { id, format } = req.params;
+    
+    if (!JOB_RESULT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Results format must be one of: ${JOB_RESULT_FORMATS.join(', ')}` });
+    }
+    
+    if (!jobs.get(id)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    res.attachment(`seo-batch-${id.slice(0, 8)}.${format}`);
+    if (format === 'csv') {
+      res.type('text/csv; charset=utf-8');
+      return res.send(jobs.resultsCsv(id));
+    }
+    
+    res.type('application/json; charset=utf-8');
+    for (const chunk of jobs.resultsJson(id)) res.write(chunk);
+    res.end();
+    
+  } catch (error) {
+    console.error('Job results error:', error);
+    if (res.headersSent) return res.end();
+    res.status(500).json({ 
+      error: 'Failed to export job results',
+      details: error.message 
+    });
+  }
+});
+
+// Deleting a job also cancels the documents it still has queued
+app.delete('/api/jobs/:id', (req, res) => {
+  try {
+    if (!jobs.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    res.json({ success: true });
+    
+  } catch (error) {
+    console.error('Job deletion error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete job',
       details: error.message 
     });
   }
 });
 
 app.get('/api/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  const keywordMetrics = getKeywordMetricsProvider();
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    keywordMetrics: { provider: keywordMetrics.name, keywords: keywordMetrics.size }
+  });
+});
+
+// Bodies over the parser limits get a JSON error like every other failure
+app.use((error, req, res, next) => {
+  if (error.type === 'entity.too.large') {
+    return res.status(413).json({ error: `The request is too large (max ${Math.round(error.limit / 1024 / 1024)} MB)` });
+  }
+  next(error);
 });
 
 app.listen(PORT, () => {
@@ -0,0 +1,253 @@
+import { STOPWORDS, isContentWord, sentenceSpans, tokenize } from './text.js';
+import { containsPhrase, countPhrase, matchTokens } from './phraseMatcher.js';
+import { MAX_DENSITY } from './focus.js';
+
+// Prepositions that open a phrase the keyword can be slotted in front of
+const PREPOSITIONS = new Set([
+  'about', 'across', 'after', 'among', 'around', 'at', 'before', 'between', 'by', 'during', 'for',
+  'from', 'in', 'into', 'on', 'over', 'through', 'throughout', 'toward', 'towards', 'under', 'with',
+  'within', 'without'
+]);
+
+// Determiners that mark the next word as a noun ("the guides", "these tools"), so a plural-looking
+// word after one isn't a verb ("the audience searches")
+const DETERMINERS = new Set([
+  'the', 'these', 'those', 'many', 'some', 'several', 'all', 'both', 'other', 'various', 'few',
+  'most', 'our', 'your', 'their', 'its', 'his', 'her', 'my'
+]);
+
+// Words that open a new clause after a comma; the keyword slots in just before them
+const CLAUSE_OPENERS = new Set(['and', 'but', 'or', 'so', 'yet', 'which', 'who', 'while', 'because', 'although', 'whereas']);
+
+// Connecting words already doing the job an insertion would do
+const CONNECTOR_PATTERN = /\b(including|such as|especially|particularly|like)\b/i;
+
+// How each kind of boundary reads once the keyword is placed there, and how much we trust it.
+// A comma already marks a clause break, so a parenthetical after it reads most naturally.
+const STRATEGIES = {
+  clause: { weight: 1, insertion: keyword => ` including ${keyword},` },
+  preposition: { weight: 0.75, insertion: keyword => `, such as ${keyword},` },
+  'sentence-end': { weight: 0.6, insertion: keyword => `, especially ${keyword}` }
+};
+
+// Lines that are markup or headings rather than prose
+const NON_PROSE_LINE = /^\s*(#|\||```|~~~|<|>|\s{4})/;
+
+const CLOSING_PUNCTUATION = /[.!?]+["'”’)\]]*$/;
+
+// Prose sentences: those ending in terminal punctuation, outside headings, list fragments and markup
+function findSentences(text) {
+  return sentenceSpans(text).filter(sentence => {
+    const line = text.slice(text.lastIndexOf('\n', sentence.start - 1) + 1);
+    return CLOSING_PUNCTUATION.test(sentence.text) && !NON_PROSE_LINE.test(line);
+  });
+}
+
+// Whether a position falls inside parentheses, brackets, quotes or an HTML tag
+function isNested(prefix) {
+  const count = pattern => (prefix.match(pattern) || []).length;
+  return count(/[([<]/g) > count(/[)\]>]/g) || count(/"/g) % 2 === 1 || count(/“/g) > count(/”/g);
+}
+
+const bareWord = word => word.toLowerCase().replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '');
+
+// Clause boundaries in one sentence where the keyword could go, as offsets into the sentence
+function findBoundaries(sentence) {
+  const words = [...sentence.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+  const commaCount = (sentence.match(/,/g) || []).length;
+  const boundaries = [];
+
+  words.forEach((word, index) => {
+    // Keep clear of the first and last couple of words
+    if (index < 2 || index > words.length - 3) return;
+
+    if (
+      /[a-z0-9]\)?,$/i.test(word.text) &&
+      CLAUSE_OPENERS.has(bareWord(words[index + 1].text)) &&
+      !isNested(sentence.slice(0, word.end))
+    ) {
+      // Short comma-separated items are a series ("red, green, and blue"), not clauses
+      const clauseStart = sentence.lastIndexOf(',', word.start - 1) + 1;
+      const clauseWords = sentence.slice(clauseStart, word.end).trim().split(/\s+/).length;
+      if (commaCount > 1 && clauseWords <= 3) return;
+      boundaries.push({ strategy: 'clause', offset: word.end, wordIndex: index });
+      return;
+    }
+
+    const previous = words[index - 1];
+    const previousWord = bareWord(previous.text);
+    if (
+      PREPOSITIONS.has(bareWord(word.text)) &&
+      index >= 3 &&
+      /[a-z0-9]$/i.test(previous.text) &&
+      isContentWord(previousWord) &&
+      // "such as" needs a plural noun to give examples of ("the guides, such as ..., for
+      // beginners"); a determiner right before it rules out verbs like "searches"
+      /[^su]s$/.test(previousWord) &&
+      /[a-z0-9]$/i.test(words[index - 2].text) &&
+      DETERMINERS.has(bareWord(words[index - 2].text)) &&
+      !isNested(sentence.slice(0, previous.end))
+    ) {
+      boundaries.push({ strategy: 'preposition', offset: previous.end, wordIndex: index });
+    }
+  });
+
+  // Just before the closing punctuation, when the sentence ends on a plain word
+  const closing = sentence.match(CLOSING_PUNCTUATION);
+  const endOffset = sentence.length - closing[0].length;
+  if (words.length >= 6 && /[a-z0-9]$/i.test(sentence.slice(0, endOffset)) && !isNested(sentence.slice(0, endOffset))) {
+    boundaries.push({ strategy: 'sentence-end', offset: endOffset, wordIndex: words.length });
+  }
+
+  return { boundaries, wordCount: words.length };
+}
+
+// Sentences of 12-25 words absorb an extra phrase best; very short or long ones suffer
+function lengthScore(wordCount) {
+  if (wordCount < 8) return 0;
+  if (wordCount <= 25) return Math.min(1, wordCount / 12);
+  return Math.max(0, 1 - (wordCount - 25) / 20);
+}
+
+// Keywords are written as typed, except a capital that only comes from the start of the input
+function formatKeyword(keyword) {
+  const trimmed = keyword.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return '';
+  const rest = trimmed.slice(1);
+  return rest === rest.toLowerCase() ? trimmed[0].toLowerCase() + rest : trimmed;
+}
+
+// The text with a candidate's insertion made
+const applyCandidate = (text, candidate) =>
+  text.slice(0, candidate.offset) + candidate.preview.insertion + text.slice(candidate.offset);
+
+// Every place the keyword could go, best first. Each sentence contributes its best boundary
+// so the top candidates are genuinely different placements. Candidates carry the offset and
+// insertion only; the text is rebuilt for the one that gets used.
+function scoreCandidates(text, keyword) {
+  const sentences = findSentences(text);
+  const keywordTerms = tokenize(keyword).filter(term => !STOPWORDS.has(term));
+  const formatted = formatKeyword(keyword);
+  const candidates = [];
+  if (!formatted) return candidates;
+
+  sentences.forEach((sentence, sentenceIndex) => {
+    const { boundaries, wordCount } = findBoundaries(sentence.text);
+    if (boundaries.length === 0) return;
+
+    const sentenceTerms = new Set(tokenize(sentence.text));
+    const relevance = keywordTerms.length > 0
+      ? keywordTerms.filter(term => sentenceTerms.has(term)).length / keywordTerms.length
+      : 0;
+    const documentPosition = 1 - sentenceIndex / Math.max(sentences.length, 1);
+    const connectorPenalty = CONNECTOR_PATTERN.test(sentence.text) ? 0.5 : 1;
+
+    const best = boundaries
+      .map(boundary => {
+        const balance = 1 - Math.abs(boundary.wordIndex / wordCount - 0.5) * 2;
+        const score = connectorPenalty * (
+          STRATEGIES[boundary.strategy].weight * 0.35 +
+          lengthScore(wordCount) * 0.25 +
+          relevance * 0.2 +
+          documentPosition * 0.1 +
+          Math.max(0, balance) * 0.1
+        );
+        return { ...boundary, score };
+      })
+      .sort((a, b) => b.score - a.score || a.offset - b.offset)[0];
+
+    const offset = sentence.start + best.offset;
+    const insertion = STRATEGIES[best.strategy].insertion(formatted);
+    candidates.push({
+      offset,
+      sentenceIndex,
+      paragraphIndex: sentence.paragraphIndex,
+      strategy: best.strategy,
+      score: Math.round(best.score * 1000) / 1000,
+      preview: {
+        before: sentence.text.slice(0, best.offset),
+        insertion,
+        after: sentence.text.slice(best.offset)
+      }
+    });
+  });
+
+  return candidates.sort((a, b) => b.score - a.score || a.offset - b.offset);
+}
+
+// Insert the keyword at the best-scoring clause boundary, or at `position` when the caller
+// picked one of the candidates. The same text and keyword always give the same result.
+export function insertKeywordIntelligently(text, keyword, { position, candidateLimit = 3 } = {}) {
+  // Don't insert if keyword already exists, in any inflection
+  if (containsPhrase(text, keyword)) {
+    return { updatedText: text, inserted: false, reason: 'exists', placement: null, candidates: [] };
+  }
+
+  const candidates = scoreCandidates(text, keyword);
+  const placement = position === undefined
+    ? candidates[0]
+    : candidates.find(candidate => candidate.offset === position);
+
+  if (!placement) {
+    return {
+      updatedText: text,
+      inserted: false,
+      reason: position === undefined ? 'no-position' : 'invalid-position',
+      placement: null,
+      candidates: candidates.slice(0, candidateLimit)
+    };
+  }
+
+  return {
+    updatedText: applyCandidate(text, placement),
+    inserted: true,
+    reason: null,
+    placement,
+    candidates: candidates.slice(0, candidateLimit)
+  };
+}
+
+// Share of the text's words taken up by the keyword, in percent
+function keywordDensity(text, keyword) {
+  const totalTokens = matchTokens(text).length;
+  return totalTokens > 0 ? (countPhrase(text, keyword) * matchTokens(keyword).length / totalTokens) * 100 : 0;
+}
+
+// Insert several keywords in one pass, each into a different sentence and, while there are
+// enough of them, a different paragraph. A keyword is skipped rather than inserted when it
+// would push its density above maxDensity.
+export function insertKeywords(text, keywords, { maxDensity = MAX_DENSITY } = {}) {
+  let updatedText = text;
+  const usedSentences = new Set();
+  const usedParagraphs = new Set();
+
+  const results = keywords.map(keyword => {
+    if (containsPhrase(updatedText, keyword)) {
+      return { keyword, inserted: false, reason: 'exists', placement: null };
+    }
+
+    const candidates = scoreCandidates(updatedText, keyword)
+      .filter(candidate => !usedSentences.has(candidate.sentenceIndex));
+    const placement = candidates.find(candidate => !usedParagraphs.has(candidate.paragraphIndex)) || candidates[0];
+    if (!placement) {
+      return { keyword, inserted: false, reason: 'no-position', placement: null };
+    }
+
+    const candidateText = applyCandidate(updatedText, placement);
+    if (keywordDensity(candidateText, keyword) > maxDensity) {
+      return { keyword, inserted: false, reason: 'density', placement: null };
+    }
+
+    // Insertions never add sentence breaks or blank lines, so indexes stay valid
+    updatedText = candidateText;
+    usedSentences.add(placement.sentenceIndex);
+    usedParagraphs.add(placement.paragraphIndex);
+    return { keyword, inserted: true, reason: null, placement };
+  });
+
+  return { updatedText, results };
+}
@@ -0,0 +1,339 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { createWorkerPool } from './workerPool.js';
+import { toCsv } from './report.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DIRECTORY = path.join(__dirname, 'storage', 'jobs');
+
+export const MAX_JOB_DOCUMENTS = 500;
+
+export const JOB_RESULT_FORMATS = ['csv', 'json'];
+
+// Finished jobs past this many are deleted, oldest first, so the store can't grow forever
+const FINISHED_JOB_LIMIT = 100;
+
+// Leave a core for the API itself; BULK_CONCURRENCY overrides
+const DEFAULT_CONCURRENCY = Math.max(1, Math.min(4, os.availableParallelism() - 1));
+
+const DOCUMENT_TIMEOUT_MS = 60000;
+
+// Headline numbers kept per document, for the job listing and the CSV export
+function summarizeAnalysis(analysis) {
+  return {
+    seoScore: analysis.seoScore,
+    wordCount: analysis.metrics.wordCount,
+    readabilityScore: analysis.metrics.readabilityScore,
+    language: analysis.language?.code ?? null,
+    focusKeyword: analysis.focus?.primary?.keyword ?? null,
+    focusDensity: analysis.focus?.primary?.density ?? null,
+    topKeywords: analysis.keywords.slice(0, 5).map(keyword => keyword.keyword),
+    suggestions: analysis.suggestions.length,
+    highPrioritySuggestions: analysis.suggestions.filter(suggestion => suggestion.priority === 'high').length
+  };
+}
+
+function progress(job) {
+  const counts = { queued: 0, running: 0, done: 0, failed: 0 };
+  job.documents.forEach(document => counts[document.status]++);
+  const total = job.documents.length;
+  return { total, ...counts, percent: total > 0 ? Math.round(((counts.done + counts.failed) / total) * 100) : 100 };
+}
+
+// Means over the documents analyzed so far; documents without a value (reading ease outside
+// English) are left out
+function averages(job) {
+  const done = job.documents.filter(document => document.status === 'done');
+  if (done.length === 0) return null;
+  const mean = key => {
+    const values = done.map(document => document.summary[key]).filter(value => value !== null);
+    return values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+  };
+  return { seoScore: mean('seoScore'), readabilityScore: mean('readabilityScore'), wordCount: mean('wordCount') };
+}
+
+// What the job list shows: status and progress, no documents
+function summarize(job) {
+  return {
+    id: job.id,
+    name: job.name,
+    status: job.status,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    progress: progress(job)
+  };
+}
+
+function detail(job) {
+  return {
+    ...summarize(job),
+    settings: job.settings,
+    averages: averages(job),
+    skipped: job.skipped,
+    documents: job.documents
+  };
+}
+
+// A job is completed once no document is waiting or running
+function updateStatus(job) {
+  const { queued, running } = progress(job);
+  if (queued + running === 0) {
+    job.status = 'completed';
+    job.finishedAt = job.finishedAt || new Date().toISOString();
+  } else if (running > 0) {
+    job.status = 'running';
+  }
+}
+
+// Jobs kept one directory each. job.json holds the status of every document and is rewritten
+// through a temporary file as they finish; each document's input and analysis are written once
+// to files of their own, so a large batch never rewrites its texts.
+export function createFileJobStore(directory) {
+  let jobs = null;
+
+  const load = () => {
+    if (!jobs) {
+      jobs = new Map();
+      if (fs.existsSync(directory)) {
+        fs.readdirSync(directory).forEach(id => {
+          const file = path.join(directory, id, 'job.json');
+          if (fs.existsSync(file)) jobs.set(id, JSON.parse(fs.readFileSync(file, 'utf8')));
+        });
+      }
+    }
+    return jobs;
+  };
+
+  const writeJson = (file, value) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const temporary = `${file}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(value));
+    fs.renameSync(temporary, file);
+  };
+
+  const readJson = file => (fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null);
+
+  // Files are only ever addressed through ids already in the store
+  const find = id => load().get(id) || null;
+  const fileOf = (job, ...parts) => path.join(directory, job.id, ...parts);
+  const save = job => writeJson(fileOf(job, 'job.json'), job);
+
+  const remove = id => {
+    const job = find(id);
+    if (!job) return false;
+    jobs.delete(id);
+    fs.rmSync(fileOf(job), { recursive: true, force: true });
+    return true;
+  };
+
+  const prune = () => {
+    const finished = [...load().values()]
+      .filter(job => job.status === 'completed')
+      .sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+    finished.slice(0, Math.max(0, finished.length - FINISHED_JOB_LIMIT)).forEach(job => remove(job.id));
+  };
+
+  const findDocument = (id, index) => {
+    const job = find(id);
+    return job && job.documents[index] ? { job, document: job.documents[index] } : null;
+  };
+
+  return {
+    list() {
+      return [...load().values()]
+        .map(summarize)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    get(id) {
+      const job = find(id);
+      return job ? detail(job) : null;
+    },
+
+    // documents are [{ name, text, options, warnings }]; ones with an `error` instead of text
+    // (files that couldn't be read) are recorded as failed straight away
+    create({ name, settings, documents, skipped = [] }) {
+      const job = {
+        id: crypto.randomUUID(),
+        name,
+        status: 'queued',
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        settings,
+        skipped,
+        documents: documents.map((document, index) => ({
+          index,
+          name: document.name,
+          status: document.error ? 'failed' : 'queued',
+          error: document.error || null,
+          warnings: document.warnings || [],
+          summary: null
+        }))
+      };
+      documents.forEach((document, index) => {
+        if (!document.error) writeJson(fileOf(job, 'input', `${index}.json`), { text: document.text, options: document.options });
+      });
+      updateStatus(job);
+      load().set(job.id, job);
+      save(job);
+      prune();
+      return detail(job);
+    },
+
+    // Documents still to analyze, oldest job first. Ones that were running when the server
+    // stopped start over.
+    pending() {
+      return [...load().values()]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .flatMap(job => job.documents
+          .filter(document => document.status === 'queued' || document.status === 'running')
+          .map(document => {
+            document.status = 'queued';
+            return { jobId: job.id, index: document.index };
+          }));
+    },
+
+    getInput(id, index) {
+      const found = findDocument(id, index);
+      return found ? readJson(fileOf(found.job, 'input', `${index}.json`)) : null;
+    },
+
+    start(id, index) {
+      const found = findDocument(id, index);
+      if (!found) return;
+      found.document.status = 'running';
+      found.job.startedAt = found.job.startedAt || new Date().toISOString();
+      updateStatus(found.job);
+      save(found.job);
+    },
+
+    complete(id, index, analysis) {
+      const found = findDocument(id, index);
+      if (!found) return;
+      writeJson(fileOf(found.job, 'results', `${index}.json`), analysis);
+      Object.assign(found.document, { status: 'done', error: null, summary: summarizeAnalysis(analysis) });
+      updateStatus(found.job);
+      save(found.job);
+    },
+
+    fail(id, index, error) {
+      const found = findDocument(id, index);
+      if (!found) return;
+      Object.assign(found.document, { status: 'failed', error });
+      updateStatus(found.job);
+      save(found.job);
+    },
+
+    getResult(id, index) {
+      const found = findDocument(id, index);
+      return found && found.document.status === 'done' ? readJson(fileOf(found.job, 'results', `${index}.json`)) : null;
+    },
+
+    remove
+  };
+}
+
+const RESULT_COLUMNS = [
+  ['Document', document => document.name],
+  ['Status', document => document.status],
+  ['SEO score', document => document.summary?.seoScore],
+  ['Word count', document => document.summary?.wordCount],
+  ['Reading ease', document => document.summary?.readabilityScore],
+  ['Language', document => document.summary?.language],
+  ['Focus keyword', document => document.summary?.focusKeyword],
+  ['Focus density (%)', document => document.summary?.focusDensity],
+  ['Top keywords', document => document.summary?.topKeywords.join('; ')],
+  ['Suggestions', document => document.summary?.suggestions],
+  ['High-priority suggestions', document => document.summary?.highPrioritySuggestions],
+  ['Extraction warnings', document => document.warnings.length],
+  ['Error', document => document.error]
+];
+
+// Feeds stored documents through the worker pool, oldest job first, and records each result.
+// Only as many inputs as there are workers are read from disk at a time.
+export function createJobQueue(store, pool) {
+  const queue = [];
+  let active = 0;
+
+  const next = () => {
+    while (active < pool.size && queue.length > 0) {
+      const { jobId, index } = queue.shift();
+      const input = store.getInput(jobId, index);
+      // Deleted while it waited
+      if (!input) continue;
+
+      store.start(jobId, index);
+      active++;
+      pool.run(input)
+        .then(analysis => store.complete(jobId, index, analysis), error => store.fail(jobId, index, error.message))
+        .catch(error => console.error('Batch job error:', error))
+        .finally(() => {
+          active--;
+          next();
+        });
+    }
+  };
+
+  const enqueue = tasks => {
+    queue.push(...tasks);
+    next();
+  };
+
+  enqueue(store.pending());
+
+  return {
+    list: () => store.list(),
+    get: id => store.get(id),
+    remove: id => store.remove(id),
+
+    submit(job) {
+      const created = store.create(job);
+      enqueue(created.documents.filter(document => document.status === 'queued').map(document => ({ jobId: created.id, index: document.index })));
+      return store.get(created.id);
+    },
+
+    // A finished document with its full analysis
+    getDocument(id, index) {
+      const job = store.get(id);
+      const document = job?.documents[index];
+      return document ? { ...document, analysis: store.getResult(id, index) } : null;
+    },
+
+    // One row per document with its headline numbers
+    resultsCsv(id) {
+      const job = store.get(id);
+      return job ? toCsv([RESULT_COLUMNS.map(([label]) => label), ...job.documents.map(document => RESULT_COLUMNS.map(([, value]) => value(document)))]) : null;
+    },
+
+    // The job and every document's full analysis, in chunks so a large batch is never held
+    // in memory as one string
+    *resultsJson(id) {
+      const job = store.get(id);
+      if (!job) return;
+      const { documents, ...summary } = job;
+      yield `{"job":${JSON.stringify(summary)},"documents":[`;
+      for (const document of documents) {
+        yield `${document.index > 0 ? ',' : ''}\n${JSON.stringify({ ...document, analysis: store.getResult(id, document.index) })}`;
+      }
+      yield '\n]}\n';
+    }
+  };
+}
+
+// Active queue; JOBS_DIR moves the store, e.g. onto a persistent volume
+const queue = createJobQueue(
+  createFileJobStore(process.env.JOBS_DIR || DEFAULT_DIRECTORY),
+  createWorkerPool(new URL('./analysisWorker.js', import.meta.url), {
+    size: Number(process.env.BULK_CONCURRENCY) || DEFAULT_CONCURRENCY,
+    timeout: DOCUMENT_TIMEOUT_MS
+  })
+);
+
+export function getJobQueue() {
+  return queue;
+}
@@ -0,0 +1,60 @@
+import { contentChunks, isPhraseCandidate } from './text.js';
+import { getStopwords } from './language.js';
+
+// RAKE word scores: degree / frequency, where degree counts the words a term shares
+// a stopword-delimited run with. Words that live in long runs score higher.
+function wordScores(chunks) {
+  const frequency = new Map();
+  const degree = new Map();
+  chunks.forEach(chunk => {
+    chunk.forEach(word => {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + chunk.length);
+    });
+  });
+
+  const scores = new Map();
+  frequency.forEach((count, word) => scores.set(word, degree.get(word) / count));
+  return scores;
+}
+
+// Multi-word keyphrases (2-3 words) that repeat in the text, ranked RAKE style.
+// Phrases never cross stopwords or punctuation, so "credit card" is found in
+// "apply for a credit card today" but "card today" is rejected as a fragment.
+export function extractKeyphrases(text, { limit = 5, minFrequency = 2, language = 'en' } = {}) {
+  const chunks = contentChunks(text, getStopwords(language));
+  const scores = wordScores(chunks);
+
+  const counts = new Map();
+  chunks.forEach(chunk => {
+    for (let size = 2; size <= 3; size++) {
+      for (let start = 0; start + size <= chunk.length; start++) {
+        const phrase = chunk.slice(start, start + size).join(' ');
+        if (isPhraseCandidate(phrase)) counts.set(phrase, (counts.get(phrase) || 0) + 1);
+      }
+    }
+  });
+
+  const ranked = [...counts]
+    .filter(([, count]) => count >= minFrequency)
+    .map(([phrase, count]) => ({
+      keyword: phrase,
+      frequency: count,
+      score: phrase.split(' ').reduce((sum, word) => sum + scores.get(word), 0) * Math.log2(1 + count)
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  // Overlapping phrases with the same count are the same occurrences ("machine learning
+  // models" x2 makes "learning models" x2 redundant, but not "machine learning" x3)
+  const selected = [];
+  ranked.forEach(candidate => {
+    if (selected.length >= limit) return;
+    const redundant = selected.some(({ keyword, frequency }) =>
+      frequency === candidate.frequency &&
+      (` ${keyword} `.includes(` ${candidate.keyword} `) || ` ${candidate.keyword} `.includes(` ${keyword} `))
+    );
+    if (!redundant) selected.push(candidate);
+  });
+
+  return selected;
+}
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DATASET = path.join(__dirname, 'data', 'keyword-metrics.csv');
+
+// Column names used by common keyword research exports (Ahrefs, Semrush, Google Keyword Planner)
+const COLUMN_ALIASES = {
+  keyword: ['keyword', 'keywords', 'query', 'term'],
+  searchVolume: ['volume', 'search volume', 'searchvolume', 'avg. monthly searches', 'avg monthly searches'],
+  difficulty: ['difficulty', 'kd', 'keyword difficulty', 'kd %', 'competition (indexed value)'],
+  cpc: ['cpc', 'cpc (usd)', 'top of page bid (high range)']
+};
+
+const normalizeKeyword = keyword => keyword.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const toNumber = value => {
+  const parsed = parseFloat(String(value ?? '').replace(/[$,%\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Parse a single CSV line, honouring quoted fields that contain commas
+function parseCsvLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === '\t') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+// Map each metric to its column index in the export's header row
+function resolveColumns(header) {
+  const normalized = header.map(name => name.toLowerCase().replace(/^\uFEFF/, '').trim());
+  const columns = {};
+  Object.entries(COLUMN_ALIASES).forEach(([metric, aliases]) => {
+    columns[metric] = normalized.findIndex(name => aliases.includes(name));
+  });
+
+  if (columns.keyword === -1) {
+    throw new Error('Keyword metrics file must have a "keyword" column');
+  }
+  return columns;
+}
+
+function toEntry(record) {
+  return {
+    searchVolume: Math.round(toNumber(record.searchVolume)),
+    difficulty: Math.max(0, Math.min(100, Math.round(toNumber(record.difficulty)))),
+    cpc: Math.round(toNumber(record.cpc) * 100) / 100
+  };
+}
+
+function parseCsvDataset(content) {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return new Map();
+
+  const columns = resolveColumns(parseCsvLine(lines[0]));
+  const dataset = new Map();
+
+  lines.slice(1).forEach(line => {
+    const fields = parseCsvLine(line);
+    const keyword = fields[columns.keyword];
+    if (!keyword) return;
+
+    dataset.set(normalizeKeyword(keyword), toEntry({
+      searchVolume: fields[columns.searchVolume],
+      difficulty: fields[columns.difficulty],
+      cpc: fields[columns.cpc]
+    }));
+  });
+
+  return dataset;
+}
+
+// JSON datasets are either an array of rows or an object keyed by keyword
+function parseJsonDataset(content) {
+  const parsed = JSON.parse(content);
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : Object.entries(parsed).map(([keyword, metrics]) => ({ keyword, ...metrics }));
+
+  const dataset = new Map();
+  rows.forEach(row => {
+    if (!row || !row.keyword) return;
+    dataset.set(normalizeKeyword(row.keyword), toEntry({
+      searchVolume: row.searchVolume ?? row.volume,
+      difficulty: row.difficulty ?? row.kd,
+      cpc: row.cpc
+    }));
+  });
+
+  return dataset;
+}
+
+// Stable 32-bit FNV-1a hash so estimates never change between runs
+function hashKeyword(keyword) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < keyword.length; i++) {
+    hash ^= keyword.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic fallback for keywords missing from the dataset.
+// Longer phrases are treated as long-tail: lower volume and easier to rank for.
+export function estimateKeywordMetrics(keyword) {
+  const normalized = normalizeKeyword(keyword);
+  const hash = hashKeyword(normalized);
+  const wordCount = normalized.split(' ').length;
+
+  const maxVolume = 8000 / (wordCount * wordCount);
+  const searchVolume = Math.round((50 + ((hash % 1000) / 1000) * maxVolume) / 10) * 10;
+  const difficulty = Math.min(100, Math.round(Math.log10(searchVolume) * 15 + ((hash >>> 10) % 20)));
+  const cpc = ((hash >>> 20) % 400) / 100;
+
+  return { searchVolume, difficulty, cpc, source: 'estimate' };
+}
+
+// Provider backed by a local CSV or JSON export, keyed by lowercase keyword
+export function createFileKeywordMetricsProvider(filePath) {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const dataset = path.extname(filePath).toLowerCase() === '.json'
+    ? parseJsonDataset(content)
+    : parseCsvDataset(content);
+
+  return {
+    name: path.basename(filePath),
+    size: dataset.size,
+    lookup(keyword) {
+      const entry = dataset.get(normalizeKeyword(keyword));
+      return entry ? { ...entry, source: 'dataset' } : null;
+    }
+  };
+}
+
+// Active provider; KEYWORD_METRICS_FILE points at a team's own keyword export
+let provider = createFileKeywordMetricsProvider(process.env.KEYWORD_METRICS_FILE || DEFAULT_DATASET);
+
+// Swap in any object exposing lookup(keyword) -> { searchVolume, difficulty, cpc } | null
+export function setKeywordMetricsProvider(nextProvider) {
+  if (!nextProvider || typeof nextProvider.lookup !== 'function') {
+    throw new Error('Keyword metrics provider must implement lookup(keyword)');
+  }
+  provider = nextProvider;
+}
+
+export function getKeywordMetricsProvider() {
+  return provider;
+}
+
+// Metrics for a keyword from the active provider, falling back to a stable estimate
+export function getKeywordMetrics(keyword) {
+  return provider.lookup(keyword) || estimateKeywordMetrics(keyword);
+}
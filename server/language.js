@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { STOPWORDS, tokenize } from './text.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const STOPWORDS_FILE = path.join(__dirname, 'data', 'stopwords.json');
+
+export const LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  fr: 'French',
+  pt: 'Portuguese',
+  it: 'Italian',
+  nl: 'Dutch',
+  hi: 'Hindi'
+};
+
+const STOPWORD_SETS = {
+  en: STOPWORDS,
+  ...Object.fromEntries(
+    Object.entries(JSON.parse(fs.readFileSync(STOPWORDS_FILE, 'utf8'))).map(([code, words]) => [code, new Set(words)])
+  )
+};
+
+// Below this many words, detection is a guess and English is assumed
+const MIN_DETECTION_WORDS = 5;
+
+// Only the opening of long documents is needed to tell languages apart
+const DETECTION_SAMPLE_WORDS = 1000;
+
+export function getStopwords(language) {
+  return STOPWORD_SETS[language] || STOPWORDS;
+}
+
+// Offline detection: the script decides for non-Latin text; otherwise the language whose
+// stopwords make up the largest share of the words wins. Function words are the most frequent
+// words in any language, so even a few sentences give a clear signal.
+export function detectLanguage(text) {
+  const tokens = tokenize(text).slice(0, DETECTION_SAMPLE_WORDS);
+  if (tokens.length < MIN_DETECTION_WORDS) {
+    return { code: 'en', confidence: 0 };
+  }
+
+  const devanagari = tokens.filter(token => /\p{Script=Devanagari}/u.test(token)).length;
+  if (devanagari / tokens.length > 0.5) {
+    return { code: 'hi', confidence: Math.round((devanagari / tokens.length) * 100) / 100 };
+  }
+
+  const shares = Object.entries(STOPWORD_SETS)
+    .map(([code, stopwords]) => ({ code, share: tokens.filter(token => stopwords.has(token)).length / tokens.length }))
+    .sort((a, b) => b.share - a.share);
+
+  const [best, runnerUp] = shares;
+  if (best.share === 0) {
+    return { code: 'en', confidence: 0 };
+  }
+  // Confidence reflects how clearly the winner beats the next closest language
+  return { code: best.code, confidence: Math.round(((best.share - runnerUp.share) / best.share) * 100) / 100 };
+}
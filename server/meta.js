@@ -0,0 +1,134 @@
+import { splitParagraphs } from './text.js';
+import { containsPhrase } from './phraseMatcher.js';
+
+// Arial advance widths in 1/1000 em, the font Google uses for result snippets
+const ARIAL_WIDTHS = {
+  ' ': 278, '!': 278, '"': 355, '#': 556, '$': 556, '%': 889, '&': 667, "'": 191, '(': 333, ')': 333,
+  '*': 389, '+': 584, ',': 278, '-': 333, '.': 278, '/': 278, ':': 278, ';': 278, '<': 584, '=': 584,
+  '>': 584, '?': 556, '@': 1015, '[': 278, '\\': 278, ']': 278, '^': 469, '_': 556, '`': 333, '{': 334,
+  '|': 260, '}': 334, '~': 584,
+  A: 667, B: 667, C: 722, D: 722, E: 667, F: 611, G: 778, H: 722, I: 278, J: 500, K: 667, L: 556, M: 833,
+  N: 722, O: 778, P: 667, Q: 778, R: 722, S: 667, T: 611, U: 722, V: 667, W: 944, X: 667, Y: 667, Z: 611,
+  a: 556, b: 556, c: 500, d: 556, e: 556, f: 278, g: 556, h: 556, i: 222, j: 222, k: 500, l: 222, m: 833,
+  n: 556, o: 556, p: 556, q: 556, r: 333, s: 500, t: 278, u: 556, v: 500, w: 722, x: 500, y: 500, z: 500
+};
+const DEFAULT_WIDTH = 556;
+
+// Typical space Google gives a snippet before cutting it off with an ellipsis.
+// Mobile titles wrap onto a second line; mobile descriptions get less room than desktop.
+export const SERP_LIMITS = {
+  title: {
+    fontSize: 20,
+    minLength: 30,
+    maxLength: 60,
+    desktop: 600,
+    mobile: 920
+  },
+  description: {
+    fontSize: 14,
+    minLength: 70,
+    maxLength: 158,
+    desktop: 920,
+    mobile: 680
+  }
+};
+
+// Rendered width of the text in pixels at the given Arial font size
+export function measureTextWidth(text, fontSize) {
+  let units = 0;
+  for (const char of text) {
+    units += ARIAL_WIDTHS[char] ?? DEFAULT_WIDTH;
+  }
+  return Math.round((units / 1000) * fontSize);
+}
+
+// Cut text at the last whole word that fits, the way a search result does
+function truncateToWidth(text, maxWidth, fontSize) {
+  if (measureTextWidth(text, fontSize) <= maxWidth) {
+    return { display: text, truncated: false };
+  }
+
+  const ellipsisWidth = measureTextWidth(' ...', fontSize);
+  const words = text.split(/\s+/);
+  let display = '';
+  for (const word of words) {
+    const candidate = display ? `${display} ${word}` : word;
+    if (measureTextWidth(candidate, fontSize) + ellipsisWidth > maxWidth) break;
+    display = candidate;
+  }
+  return { display: `${display} ...`, truncated: true };
+}
+
+function containsKeyword(text, keyword) {
+  if (!keyword) return null;
+  return containsPhrase(text, keyword);
+}
+
+function describeField(text, source, limits, focusKeyword) {
+  return {
+    text,
+    source,
+    length: text.length,
+    pixelWidth: measureTextWidth(text, limits.fontSize),
+    desktop: truncateToWidth(text, limits.desktop, limits.fontSize),
+    mobile: truncateToWidth(text, limits.mobile, limits.fontSize),
+    containsFocusKeyword: containsKeyword(text, focusKeyword)
+  };
+}
+
+function fieldSuggestions(field, name, limits) {
+  const suggestions = [];
+  const label = name === 'title' ? 'Meta title' : 'Meta description';
+
+  if (field.source === 'generated') {
+    suggestions.push({
+      type: 'meta',
+      message: `No ${label.toLowerCase()} provided. Search engines will generate one from your content; write your own to control the snippet.`,
+      priority: name === 'title' ? 'high' : 'medium'
+    });
+  } else if (field.desktop.truncated) {
+    suggestions.push({
+      type: 'meta',
+      message: `${label} is about ${field.pixelWidth}px wide and will be cut off on desktop results (limit ~${limits.desktop}px, roughly ${limits.maxLength} characters).`,
+      priority: 'medium'
+    });
+  } else if (field.length < limits.minLength) {
+    suggestions.push({
+      type: 'meta',
+      message: `${label} is only ${field.length} characters. Use more of the available space (${limits.minLength}-${limits.maxLength} characters).`,
+      priority: 'low'
+    });
+  }
+
+  if (field.containsFocusKeyword === false) {
+    suggestions.push({
+      type: 'meta',
+      message: `${label} doesn't contain the focus keyword.`,
+      priority: name === 'title' ? 'high' : 'medium'
+    });
+  }
+
+  return suggestions;
+}
+
+// Check the meta title and description against typical SERP truncation. When either is
+// missing, preview what a search engine would likely show: the first heading and paragraph.
+export function analyzeMeta({ title, description, text, headings = [], focusKeyword }) {
+  const firstParagraph = splitParagraphs(text).find(paragraph => !headings.includes(paragraph.trim())) || '';
+  const fallbackDescription = firstParagraph.replace(/\s+/g, ' ').trim();
+
+  const titleField = title
+    ? describeField(title, 'provided', SERP_LIMITS.title, focusKeyword)
+    : describeField(headings[0] || fallbackDescription.split(/[.!?]/)[0], 'generated', SERP_LIMITS.title, focusKeyword);
+  const descriptionField = description
+    ? describeField(description, 'provided', SERP_LIMITS.description, focusKeyword)
+    : describeField(fallbackDescription, 'generated', SERP_LIMITS.description, focusKeyword);
+
+  return {
+    report: { title: titleField, description: descriptionField },
+    suggestions: [
+      ...fieldSuggestions(titleField, 'title', SERP_LIMITS.title),
+      ...fieldSuggestions(descriptionField, 'description', SERP_LIMITS.description)
+    ]
+  };
+}
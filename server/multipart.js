@@ -0,0 +1,68 @@
+// Minimal multipart/form-data parser for buffered request bodies (express.raw). Returns
+// { fields, files } or { error }: fields maps each name to its values in order, files are
+// [{ field, filename, contentType, data }].
+export function parseMultipart(body, contentType = '') {
+  const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  if (!/^multipart\/form-data/i.test(contentType) || !boundaryMatch) {
+    return { error: 'Expected a multipart/form-data upload' };
+  }
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    return { error: 'The upload is empty' };
+  }
+
+  const delimiter = Buffer.from(`--${boundaryMatch[1] || boundaryMatch[2]}`);
+  // Every delimiter after the first starts on a new line, which keeps look-alikes in file
+  // content from ending a part early
+  const partEnd = Buffer.concat([Buffer.from('\r\n'), delimiter]);
+  const fields = {};
+  const files = [];
+
+  let position = body.indexOf(delimiter);
+  if (position < 0) return { error: 'The upload is malformed' };
+
+  for (;;) {
+    position += delimiter.length;
+    // "--" after a delimiter closes the body
+    if (body.subarray(position, position + 2).toString() === '--') break;
+    position += 2; // CRLF after the delimiter
+
+    const headerEnd = body.indexOf('\r\n\r\n', position);
+    const next = body.indexOf(partEnd, position);
+    if (headerEnd < 0 || next < 0 || headerEnd > next) return { error: 'The upload is malformed' };
+
+    const headers = Object.fromEntries(body.toString('utf8', position, headerEnd).split('\r\n').map(line => {
+      const separator = line.indexOf(':');
+      return [line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim()];
+    }));
+    const content = body.subarray(headerEnd + 4, next);
+
+    const disposition = headers['content-disposition'] || '';
+    const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+    const encodedFilename = disposition.match(/\bfilename\*=UTF-8''([^;]+)/i)?.[1];
+    const filename = encodedFilename !== undefined ? safeDecode(encodedFilename) : disposition.match(/\bfilename="([^"]*)"/i)?.[1];
+
+    if (name !== undefined) {
+      if (filename !== undefined) {
+        files.push({
+          field: name,
+          filename,
+          contentType: headers['content-type'] || 'application/octet-stream',
+          data: content
+        });
+      } else {
+        (fields[name] = fields[name] || []).push(content.toString('utf8'));
+      }
+    }
+    position = next + 2;
+  }
+
+  return { fields, files };
+}
+
+function safeDecode(value) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
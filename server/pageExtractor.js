@@ -0,0 +1,211 @@
+import { decodeEntities, getAttribute, stripNonContentHtml } from './structure.js';
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Elements that hold site chrome rather than the article
+const BOILERPLATE_TAGS = new Set(['nav', 'aside', 'form', 'iframe', 'button', 'dialog', 'menu', 'select']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog']);
+const BOILERPLATE_NAMES = /(?:^|[\s_-])(?:nav|navbar|menu|footer|sidebar|comments?|share|sharing|social|advert|ads?|promo|cookies?|consent|banner|breadcrumbs?|related|newsletter|subscribe|popup|modal|masthead)(?:$|[\s_-])/i;
+
+// Open Graph properties worth reporting
+const OPEN_GRAPH_PROPERTIES = ['title', 'description', 'image', 'type', 'url', 'site_name'];
+
+const stripTags = html => decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Element tree over the raw markup: each node records where its tags start and end, so
+// subtrees can be measured or cut out of the original string. Unclosed elements end where
+// their parent does, the way browsers recover from sloppy markup.
+function buildTree(html) {
+  const root = { tag: '#root', tagText: '', start: 0, innerStart: 0, innerEnd: html.length, end: html.length, children: [], parent: null };
+  let current = root;
+
+  for (const match of html.matchAll(/<(\/?)([a-z][a-z0-9-]*)\b[^>]*?(\/?)>/gi)) {
+    const [tagText, closing, name, selfClosing] = match;
+    const tag = name.toLowerCase();
+
+    if (closing) {
+      let node = current;
+      while (node !== root && node.tag !== tag) node = node.parent;
+      if (node === root) continue;
+      for (let open = current; ; open = open.parent) {
+        open.innerEnd = match.index;
+        open.end = open === node ? match.index + tagText.length : match.index;
+        if (open === node) break;
+      }
+      current = node.parent;
+      continue;
+    }
+
+    const node = {
+      tag,
+      tagText,
+      start: match.index,
+      innerStart: match.index + tagText.length,
+      innerEnd: html.length,
+      end: html.length,
+      children: [],
+      parent: current
+    };
+    current.children.push(node);
+    if (VOID_TAGS.has(tag) || selfClosing) {
+      node.innerEnd = node.end = node.innerStart;
+    } else {
+      current = node;
+    }
+  }
+
+  // Elements still open at the end of the document close with it
+  for (let open = current; open !== root; open = open.parent) {
+    open.innerEnd = html.length;
+    open.end = html.length;
+  }
+  return root;
+}
+
+function walk(node, visit) {
+  node.children.forEach(child => {
+    if (visit(child) !== false) walk(child, visit);
+  });
+}
+
+const hasAncestor = (node, tags) => {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (tags.includes(parent.tag)) return true;
+  }
+  return false;
+};
+
+function isBoilerplate(node) {
+  if (BOILERPLATE_TAGS.has(node.tag)) return true;
+  // Site headers and footers are chrome; an article's own header holds its title
+  if ((node.tag === 'header' || node.tag === 'footer') && !hasAncestor(node, ['article', 'main'])) return true;
+  const role = getAttribute(node.tagText, 'role');
+  if (role && BOILERPLATE_ROLES.has(role.toLowerCase())) return true;
+  const names = `${getAttribute(node.tagText, 'class') || ''} ${getAttribute(node.tagText, 'id') || ''}`;
+  return BOILERPLATE_NAMES.test(names) && !['article', 'main', 'body', 'html'].includes(node.tag);
+}
+
+// Cut every boilerplate subtree out of the markup
+function removeBoilerplate(html) {
+  const ranges = [];
+  walk(buildTree(html), node => {
+    if (!isBoilerplate(node)) return true;
+    ranges.push([node.start, node.end]);
+    return false;
+  });
+
+  let cleaned = '';
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    cleaned += html.slice(position, start);
+    position = end;
+  });
+  return { html: cleaned + html.slice(position), removedBlocks: ranges.length };
+}
+
+const textLength = (html, node) => stripTags(html.slice(node.innerStart, node.innerEnd)).length;
+
+// The element holding the article: an <article> or <main> when the page marks one up,
+// otherwise the container whose paragraphs hold the most text
+function findMainContent(html) {
+  const root = buildTree(html);
+  const marked = { article: [], main: [] };
+  const paragraphScores = new Map();
+
+  walk(root, node => {
+    if (node.tag === 'article') marked.article.push(node);
+    if (node.tag === 'main' || getAttribute(node.tagText, 'role') === 'main') marked.main.push(node);
+    if (node.tag === 'p' && node.parent) {
+      const length = textLength(html, node);
+      paragraphScores.set(node.parent, (paragraphScores.get(node.parent) || 0) + length);
+      if (node.parent.parent) {
+        paragraphScores.set(node.parent.parent, (paragraphScores.get(node.parent.parent) || 0) + length / 2);
+      }
+    }
+  });
+
+  const longest = nodes => nodes.reduce((best, node) => (textLength(html, node) > textLength(html, best) ? node : best));
+  if (marked.article.length > 0) return { node: longest(marked.article), method: 'article' };
+  if (marked.main.length > 0) return { node: longest(marked.main), method: 'main' };
+
+  const [best] = [...paragraphScores].sort(([, a], [, b]) => b - a);
+  if (best && best[0] !== root) return { node: best[0], method: 'density' };
+
+  const body = [];
+  walk(root, node => {
+    if (node.tag === 'body') body.push(node);
+  });
+  return { node: body[0] || root, method: 'body' };
+}
+
+// Title, description, canonical, hreflang alternates and Open Graph tags from the page head
+export function extractMetadata(html, pageUrl) {
+  const resolve = href => {
+    try {
+      return new URL(href, pageUrl).href;
+    } catch {
+      return href;
+    }
+  };
+
+  const metaTags = [...html.matchAll(/<meta\b[^>]*>/gi)].map(([tag]) => ({
+    name: (getAttribute(tag, 'name') || getAttribute(tag, 'property') || '').toLowerCase(),
+    content: getAttribute(tag, 'content')
+  }));
+  const metaContent = name => metaTags.find(tag => tag.name === name && tag.content !== null)?.content.trim() || null;
+
+  const linkTags = [...html.matchAll(/<link\b[^>]*>/gi)].map(([tag]) => ({
+    rel: (getAttribute(tag, 'rel') || '').toLowerCase().split(/\s+/),
+    href: getAttribute(tag, 'href'),
+    hreflang: getAttribute(tag, 'hreflang')
+  }));
+  const canonical = linkTags.find(link => link.rel.includes('canonical') && link.href);
+
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+
+  return {
+    title: title ? stripTags(title[1]) || null : null,
+    description: metaContent('description'),
+    canonical: canonical ? resolve(canonical.href) : null,
+    hreflang: linkTags
+      .filter(link => link.rel.includes('alternate') && link.hreflang && link.href)
+      .map(link => ({ language: link.hreflang, href: resolve(link.href) })),
+    openGraph: Object.fromEntries(OPEN_GRAPH_PROPERTIES.map(property => [property, metaContent(`og:${property}`)])),
+    language: getAttribute(html.match(/<html\b[^>]*>/i)?.[0] || '', 'lang'),
+    robots: metaContent('robots')
+  };
+}
+
+// The page's main article as HTML, with navigation, headers, footers, sidebars, ads and
+// other boilerplate removed. The page's H1 is kept when it sits outside the article body.
+export function extractMainContent(source) {
+  const stripped = stripNonContentHtml(source);
+  const { html, removedBlocks } = removeBoilerplate(stripped);
+  const { node, method } = findMainContent(html);
+  let content = html.slice(node.innerStart, node.innerEnd).trim();
+
+  if (!/<h1\b/i.test(content)) {
+    const pageHeading = stripped.match(/<h1\b[^>]*>[\s\S]*?<\/h1>/i);
+    if (pageHeading) content = `${pageHeading[0]}\n${content}`;
+  }
+
+  return { html: content, method, removedBlocks };
+}
+
+// Head tags a published page should have, as suggestions alongside the content checks
+export function metadataSuggestions(metadata, pageUrl) {
+  const suggestions = [];
+  if (!metadata.canonical) {
+    suggestions.push({ type: 'page', message: 'The page has no canonical link. Add <link rel="canonical"> so duplicate URLs consolidate to this one.', priority: 'medium' });
+  } else if (metadata.canonical.replace(/\/$/, '') !== pageUrl.replace(/\/$/, '')) {
+    suggestions.push({ type: 'page', message: `The canonical URL points elsewhere (${metadata.canonical}), so search engines will index that page instead.`, priority: 'medium' });
+  }
+  const missingOpenGraph = ['title', 'description', 'image'].filter(property => !metadata.openGraph[property]);
+  if (missingOpenGraph.length > 0) {
+    suggestions.push({ type: 'page', message: `Missing Open Graph tags: ${missingOpenGraph.map(property => `og:${property}`).join(', ')}. Social shares will fall back to whatever the platform guesses.`, priority: 'low' });
+  }
+  if (metadata.robots && /noindex/i.test(metadata.robots)) {
+    suggestions.push({ type: 'page', message: 'The page is marked noindex and will not appear in search results.', priority: 'high' });
+  }
+  return suggestions;
+}
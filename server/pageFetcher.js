@@ -0,0 +1,214 @@
+import dns from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'SEO-Analyzer/1.0 (+content audit)';
+
+// Addresses a public fetch must not reach: loopback, private, link-local, carrier-grade NAT,
+// benchmarking, documentation, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// (::ffff:127.0.0.1, however they're written) are checked against the IPv4 ranges.
+const BLOCKED_RANGES = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+  // Unspecified, loopback and IPv4-compatible; local-use NAT64; discard; Teredo; documentation;
+  // unique local; link-local; site-local; multicast
+  ['::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+];
+
+const blockedAddresses = new net.BlockList();
+BLOCKED_RANGES.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, net.isIPv4(network) ? 'ipv4' : 'ipv6'));
+
+// The eight 16-bit groups of an IPv6 address, expanding "::" and a dotted IPv4 tail
+function ipv6Groups(address) {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${(a * 256 + b).toString(16)}:${(c * 256 + d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = part => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const left = parse(head);
+  const right = parse(tail);
+  return [...left, ...Array(Math.max(0, 8 - left.length - right.length)).fill(0), ...right];
+}
+
+// The IPv4 address a NAT64 (64:ff9b::/96) or 6to4 (2002::/16) address reaches
+function embeddedIPv4(address) {
+  const groups = ipv6Groups(address);
+  const toIPv4 = (high, low) => [high >> 8, high & 255, low >> 8, low & 255].join('.');
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) return toIPv4(groups[6], groups[7]);
+  if (groups[0] === 0x2002) return toIPv4(groups[1], groups[2]);
+  return null;
+}
+
+function isPrivateAddress(address) {
+  if (net.isIPv4(address)) return blockedAddresses.check(address, 'ipv4');
+  if (blockedAddresses.check(address, 'ipv6')) return true;
+  const ipv4 = embeddedIPv4(address);
+  return ipv4 !== null && blockedAddresses.check(ipv4, 'ipv4');
+}
+
+// Every address the host resolves to, as [{ address, family }]
+async function resolveHost(hostname) {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  return net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : dns.lookup(host, { all: true });
+}
+
+// A lookup that hands the connection the addresses already checked, so a second DNS answer
+// (rebinding) can't point the request somewhere else
+const pinnedLookup = addresses => (hostname, options, callback) => {
+  if (options.all) callback(null, addresses);
+  else callback(null, addresses[0].address, addresses[0].family);
+};
+
+// fetch() resolves hostnames itself, so pages are requested over http/https with the pinned
+// lookup instead. Resolves to the parts of a fetch Response the fetcher reads.
+function requestPage(url, { signal, headers, lookup }) {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(url, { headers, signal, lookup }, response => {
+      resolve({
+        status: response.statusCode,
+        ok: response.statusCode >= 200 && response.statusCode < 300,
+        headers: new Headers(Object.entries(response.headers).flatMap(([name, value]) =>
+          (Array.isArray(value) ? value : [value]).map(item => [name, item]))),
+        body: Readable.toWeb(response)
+      });
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+const failure = (reason, message) => ({ ok: false, reason, message });
+
+// Cancel a body that won't be read, which releases its connection instead of leaving it open
+// until the server gives up
+const discardBody = response => response.body?.cancel().catch(() => {});
+
+// Read the body up to maxBytes, decoding with the charset the server declared
+async function readBody(response, maxBytes) {
+  const reader = response.body.getReader();
+  const chunks = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const charset = (response.headers.get('content-type') || '').match(/charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  let decoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  return decoder.decode(Buffer.concat(chunks));
+}
+
+// Fetches HTML pages for analysis. Redirects are followed by hand so every hop gets the same
+// checks; unless allowPrivateHosts is set (local fixture servers, intranet audits), URLs that
+// resolve to private or loopback addresses are refused. fetchImpl(url, init) gets
+// init.lookup, which connects to the checked addresses only.
+// fetchPage resolves to { ok: true, url, status, html } or { ok: false, reason, message }.
+export function createPageFetcher({
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxBytes = DEFAULT_MAX_BYTES,
+  allowPrivateHosts = false,
+  fetchImpl = requestPage
+} = {}) {
+  return {
+    async fetchPage(url) {
+      let target;
+      try {
+        target = new URL(url);
+      } catch {
+        return failure('invalid-url', 'Enter a full URL, including http:// or https://');
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+          if (!['http:', 'https:'].includes(target.protocol)) {
+            return failure('invalid-url', 'Only http and https URLs can be analyzed');
+          }
+          const addresses = await resolveHost(target.hostname);
+          if (!allowPrivateHosts && addresses.some(({ address }) => isPrivateAddress(address))) {
+            return failure('blocked-host', `${target.hostname} is a private or local address`);
+          }
+
+          const response = await fetchImpl(target, {
+            redirect: 'manual',
+            signal: controller.signal,
+            headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+            lookup: pinnedLookup(addresses)
+          });
+
+          const location = response.headers.get('location');
+          if (response.status >= 300 && response.status < 400 && location) {
+            await discardBody(response);
+            target = new URL(location, target);
+            continue;
+          }
+          if (!response.ok) {
+            await discardBody(response);
+            return failure('http-error', `The page responded with HTTP ${response.status}`);
+          }
+          const contentType = response.headers.get('content-type') || '';
+          if (contentType && !/html/i.test(contentType)) {
+            await discardBody(response);
+            return failure('not-html', `Expected an HTML page but got ${contentType.split(';')[0]}`);
+          }
+
+          const html = await readBody(response, maxBytes);
+          if (html === null) {
+            return failure('too-large', `The page is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+          }
+          return { ok: true, url: target.href, status: response.status, html };
+        }
+        return failure('http-error', `Too many redirects (more than ${MAX_REDIRECTS})`);
+
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return failure('timeout', `The page didn't respond within ${timeoutMs / 1000} seconds`);
+        }
+        return failure('network', `Could not reach ${target.hostname}: ${error.cause?.code || error.message}`);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+// Active fetcher; URL_FETCH_TIMEOUT_MS and ALLOW_PRIVATE_URLS adjust the default one
+let fetcher = createPageFetcher({
+  timeoutMs: Number(process.env.URL_FETCH_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+  allowPrivateHosts: process.env.ALLOW_PRIVATE_URLS === 'true'
+});
+
+// Swap in any object exposing fetchPage(url), e.g. one serving local fixtures in tests
+export function setPageFetcher(nextFetcher) {
+  if (!nextFetcher || typeof nextFetcher.fetchPage !== 'function') {
+    throw new Error('Page fetcher must implement fetchPage(url)');
+  }
+  fetcher = nextFetcher;
+}
+
+export function getPageFetcher() {
+  return fetcher;
+}
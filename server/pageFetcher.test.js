@@ -0,0 +1,129 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { once } from 'events';
+import { createPageFetcher, getPageFetcher, setPageFetcher } from './pageFetcher.js';
+
+// Local fixture server. Error and redirect responses send part of a body and never finish
+// it, so they only close once the fetcher lets go of the connection.
+const openResponses = new Map();
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const holdOpen = () => {
+    openResponses.set(pathname, once(res, 'close'));
+    res.write('<p>');
+  };
+
+  if (pathname === '/article') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end('<html><head><title>Fixture</title></head><body><h1>Café guide</h1></body></html>');
+  } else if (pathname === '/moved') {
+    res.writeHead(302, { Location: '/article', 'Content-Type': 'text/html' });
+    holdOpen();
+  } else if (pathname === '/loop') {
+    res.writeHead(302, { Location: '/loop' });
+    res.end();
+  } else if (pathname === '/data') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    holdOpen();
+  } else if (pathname === '/large') {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end('x'.repeat(2048));
+  } else {
+    res.writeHead(404, { 'Content-Type': 'text/html' });
+    holdOpen();
+  }
+});
+
+let baseUrl;
+
+before(async () => {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+// Connections a failing test left open would otherwise keep the run from ending
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+// Resolves when the fixture response for `pathname` closes, and fails the test if it stays open
+const closed = pathname => Promise.race([
+  openResponses.get(pathname),
+  new Promise((resolve, reject) => setTimeout(() => reject(new Error(`${pathname} was left open`)), 2000).unref())
+]);
+
+describe('createPageFetcher', () => {
+  const fetcher = createPageFetcher({ allowPrivateHosts: true, timeoutMs: 5000, maxBytes: 1024 });
+
+  test('fetches an HTML page', async () => {
+    const result = await fetcher.fetchPage(`${baseUrl}/article`);
+    assert.equal(result.ok, true);
+    assert.equal(result.status, 200);
+    assert.match(result.html, /<h1>Café guide<\/h1>/);
+  });
+
+  test('follows redirects and releases the redirect response', async () => {
+    const result = await fetcher.fetchPage(`${baseUrl}/moved`);
+    assert.equal(result.ok, true);
+    assert.equal(result.url, `${baseUrl}/article`);
+    await closed('/moved');
+  });
+
+  test('releases the response of an HTTP error', async () => {
+    const result = await fetcher.fetchPage(`${baseUrl}/missing`);
+    assert.equal(result.reason, 'http-error');
+    assert.match(result.message, /404/);
+    await closed('/missing');
+  });
+
+  test('releases the response of a page that is not HTML', async () => {
+    const result = await fetcher.fetchPage(`${baseUrl}/data`);
+    assert.equal(result.reason, 'not-html');
+    await closed('/data');
+  });
+
+  test('stops after too many redirects', async () => {
+    const result = await fetcher.fetchPage(`${baseUrl}/loop`);
+    assert.equal(result.reason, 'http-error');
+    assert.match(result.message, /Too many redirects/);
+  });
+
+  test('refuses pages over the size limit', async () => {
+    const result = await fetcher.fetchPage(`${baseUrl}/large`);
+    assert.equal(result.reason, 'too-large');
+  });
+
+  test('rejects URLs that are not http or https', async () => {
+    assert.equal((await fetcher.fetchPage('not a url')).reason, 'invalid-url');
+    assert.equal((await fetcher.fetchPage('ftp://example.com/')).reason, 'invalid-url');
+  });
+
+  test('refuses loopback and private addresses unless allowed', async () => {
+    const publicOnly = createPageFetcher();
+    for (const url of [`${baseUrl}/article`, 'http://[::ffff:7f00:1]/', 'http://[64:ff9b::a00:1]/', 'http://[2002:c0a8:101::]/']) {
+      assert.equal((await publicOnly.fetchPage(url)).reason, 'blocked-host', url);
+    }
+  });
+});
+
+describe('setPageFetcher', () => {
+  test('swaps the active fetcher', async () => {
+    const previous = getPageFetcher();
+    const fixture = { fetchPage: async url => ({ ok: true, url, status: 200, html: '<h1>Fixture</h1>' }) };
+    setPageFetcher(fixture);
+    try {
+      assert.equal(getPageFetcher(), fixture);
+      assert.equal((await getPageFetcher().fetchPage('https://example.com/')).html, '<h1>Fixture</h1>');
+    } finally {
+      setPageFetcher(previous);
+    }
+  });
+
+  test('rejects objects without fetchPage', () => {
+    assert.throws(() => setPageFetcher({}), /fetchPage/);
+  });
+});
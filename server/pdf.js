@@ -0,0 +1,234 @@
+import zlib from 'zlib';
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+
+// Advance widths (1/1000 em) of printable ASCII in the standard Helvetica faces, from their AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+  278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667,
+  611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833,
+  556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+  333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667,
+  611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889,
+  611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const FONTS = {
+  regular: { resource: 'F1', name: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { resource: 'F2', name: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS }
+};
+
+// Characters WinAnsiEncoding places outside Latin-1
+const WIN_ANSI_EXTRAS = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b,
+  'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99,
+  'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// The standard fonts only cover Western European text; anything else prints as "?"
+function toWinAnsi(text) {
+  return [...text.normalize('NFC')].map(char => {
+    const code = char.codePointAt(0);
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+}
+
+const charWidth = (code, font) => (code >= 32 && code <= 126 ? font.widths[code - 32] : 556);
+
+export const textWidth = (text, { bold = false, size }) =>
+  toWinAnsi(text).reduce((sum, code) => sum + charWidth(code, bold ? FONTS.bold : FONTS.regular), 0) / 1000 * size;
+
+// Split text into lines no wider than maxWidth, breaking words that don't fit on a line of their own
+export function wrapText(text, { maxWidth, size, bold = false }) {
+  const lines = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, { size, bold }) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      // Too long for a line of its own: cut it where the running width overflows, in one pass
+      const font = bold ? FONTS.bold : FONTS.regular;
+      let width = 0;
+      [...word.normalize('NFC')].forEach(char => {
+        const charSize = charWidth(toWinAnsi(char)[0], font) / 1000 * size;
+        if (line && width + charSize > maxWidth) {
+          lines.push(line);
+          line = '';
+          width = 0;
+        }
+        line += char;
+        width += charSize;
+      });
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+const hexString = text => `<${toWinAnsi(text).map(code => code.toString(16).padStart(2, '0')).join('')}>`;
+
+export function parseColor(hex) {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex || '');
+  if (!match) return [0.145, 0.388, 0.922];
+  return [0, 2, 4].map(offset => Math.round(parseInt(match[1].slice(offset, offset + 2), 16) / 255 * 1000) / 1000);
+}
+
+const rgb = ([r, g, b]) => `${r} ${g} ${b}`;
+
+// A4 PDF documents laid out top to bottom with the standard Helvetica fonts, so no font files
+// are needed. Blocks flow onto new pages as they fill up; every page gets a footer with the
+// page number. toBuffer() returns the finished file.
+export function createPdfDocument({ title = 'Report', footer = '' } = {}) {
+  const pages = [];
+  let operations = null;
+  let y = 0;
+
+  const newPage = () => {
+    operations = [];
+    pages.push(operations);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const ensureSpace = height => {
+    if (!operations || y - height < MARGIN + FOOTER_HEIGHT) newPage();
+  };
+  const drawText = (text, x, baseline, { size = 10, bold = false, color = [0, 0, 0] } = {}) => {
+    const font = bold ? FONTS.bold : FONTS.regular;
+    operations.push(`BT /${font.resource} ${size} Tf ${rgb(color)} rg ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${hexString(text)} Tj ET`);
+  };
+  const fillRect = (x, top, width, height, color) => {
+    operations.push(`${rgb(color)} rg ${x.toFixed(2)} ${(top - height).toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+  };
+  const rule = (top, color = [0.85, 0.85, 0.85]) => {
+    operations.push(`${rgb(color)} RG 0.5 w ${MARGIN} ${top.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${top.toFixed(2)} l S`);
+  };
+
+  const document = {
+    // Full-width colored band with white text, used for the report header
+    banner(text, { color, subtitle } = {}) {
+      ensureSpace(70);
+      fillRect(MARGIN, y, CONTENT_WIDTH, subtitle ? 62 : 44, color);
+      drawText(text, MARGIN + 16, y - 28, { size: 18, bold: true, color: [1, 1, 1] });
+      if (subtitle) drawText(subtitle, MARGIN + 16, y - 48, { size: 10, color: [1, 1, 1] });
+      y -= (subtitle ? 62 : 44) + 20;
+      return document;
+    },
+
+    heading(text, { color = [0, 0, 0] } = {}) {
+      ensureSpace(40);
+      y -= 8;
+      drawText(text, MARGIN, y - 14, { size: 14, bold: true, color });
+      y -= 22;
+      rule(y + 2, color);
+      y -= 10;
+      return document;
+    },
+
+    paragraph(text, { size = 10, bold = false, color = [0.15, 0.15, 0.15], indent = 0 } = {}) {
+      const lineHeight = size * 1.4;
+      wrapText(text, { maxWidth: CONTENT_WIDTH - indent, size, bold }).forEach(line => {
+        ensureSpace(lineHeight);
+        drawText(line, MARGIN + indent, y - size, { size, bold, color });
+        y -= lineHeight;
+      });
+      y -= size * 0.4;
+      return document;
+    },
+
+    // Columns are [{ label, width (share of the content width), align }]; cells wrap
+    table(columns, rows, { headerColor = [0.95, 0.95, 0.95], size = 9 } = {}) {
+      const widths = columns.map(column => column.width * CONTENT_WIDTH);
+      const lineHeight = size * 1.35;
+      const drawRow = (cells, { bold = false, background = null } = {}) => {
+        const wrapped = cells.map((cell, index) => wrapText(String(cell ?? ''), { maxWidth: widths[index] - 8, size, bold }));
+        const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 6;
+        ensureSpace(height);
+        if (background) fillRect(MARGIN, y, CONTENT_WIDTH, height, background);
+        let x = MARGIN;
+        wrapped.forEach((lines, index) => {
+          lines.forEach((line, lineIndex) => {
+            const offset = columns[index].align === 'right' ? widths[index] - 4 - textWidth(line, { size, bold }) : 4;
+            drawText(line, x + offset, y - 3 - size - lineIndex * lineHeight, { size, bold });
+          });
+          x += widths[index];
+        });
+        y -= height;
+        rule(y);
+      };
+
+      drawRow(columns.map(column => column.label), { bold: true, background: headerColor });
+      rows.forEach(row => drawRow(row));
+      y -= 10;
+      return document;
+    },
+
+    spacer(height = 10) {
+      y -= height;
+      return document;
+    },
+
+    toBuffer() {
+      if (pages.length === 0) newPage();
+      pages.forEach((pageOperations, index) => {
+        operations = pageOperations;
+        const label = `Page ${index + 1} of ${pages.length}`;
+        if (footer) drawText(footer, MARGIN, MARGIN - 10, { size: 8, color: [0.45, 0.45, 0.45] });
+        drawText(label, PAGE_WIDTH - MARGIN - textWidth(label, { size: 8 }), MARGIN - 10, { size: 8, color: [0.45, 0.45, 0.45] });
+      });
+
+      // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+      const objects = [];
+      const pageIds = pages.map((_, index) => 6 + index * 2);
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+      objects[3] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.regular.name} /Encoding /WinAnsiEncoding >>`;
+      objects[4] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.bold.name} /Encoding /WinAnsiEncoding >>`;
+      objects[5] = `<< /Title ${hexString(title)} /Producer (SEO Analyzer) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`;
+      pages.forEach((pageOperations, index) => {
+        const stream = zlib.deflateSync(Buffer.from(pageOperations.join('\n'), 'latin1'));
+        objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+        objects[pageIds[index] + 1] = Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          stream,
+          Buffer.from('\nendstream', 'latin1')
+        ]);
+      });
+
+      const chunks = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      let length = chunks[0].length;
+      const offsets = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = length;
+        const body = Buffer.isBuffer(objects[id]) ? objects[id] : Buffer.from(objects[id], 'latin1');
+        const chunk = Buffer.concat([Buffer.from(`${id} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+        chunks.push(chunk);
+        length += chunk.length;
+      }
+
+      const xref = [
+        'xref',
+        `0 ${objects.length}`,
+        '0000000000 65535 f ',
+        ...offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>`,
+        'startxref',
+        String(length),
+        '%%EOF'
+      ].join('\n');
+      return Buffer.concat([...chunks, Buffer.from(xref, 'latin1')]);
+    }
+  };
+  return document;
+}
@@ -0,0 +1,63 @@
+// Keyword matching that ignores case, accents, plurals and common inflections, so
+// "Content Strategies" matches "content strategy" but "art" never matches "smart".
+
+// Lowercase and strip diacritics ("Café" -> "cafe")
+export function normalizeText(text) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .toLowerCase();
+}
+
+// Light suffix stripping in the spirit of Porter's first step: plurals, -ed and -ing.
+// Both the text and the keyword go through it, so stems only need to be consistent.
+export function stem(token) {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+  let word = token;
+
+  if (word.endsWith('ies') || word.endsWith('ied')) {
+    word = `${word.slice(0, -3)}y`;
+  } else if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    // "class", "status" and "analysis" aren't plurals
+    word = word.slice(0, -1);
+  } else if (/(ing|ed)$/.test(word) && !word.endsWith('eed')) {
+    const base = word.replace(/(ing|ed)$/, '');
+    if (base.length >= 3 && /[aeiouy]/.test(base)) {
+      // "running" -> "run", "planned" -> "plan"
+      word = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+
+  // A silent final e comes and goes with suffixes ("write"/"writing", "cache"/"caches")
+  if (word.length > 3 && word.endsWith('e')) word = word.slice(0, -1);
+  return word;
+}
+
+// Stemmed tokens for matching. Hyphenated words are split so "long-tail" matches "long tail".
+export function matchTokens(text) {
+  return (normalizeText(text).match(/[\p{L}\p{M}\p{N}]+(?:'[\p{L}\p{M}\p{N}]+)*/gu) || [])
+    .map(token => stem(token.replace(/'s?$/, '')));
+}
+
+// Token indexes where the phrase starts, in the token list from matchTokens
+export function findPhraseMatches(tokens, phrase) {
+  const phraseTokens = matchTokens(phrase);
+  if (phraseTokens.length === 0) return [];
+
+  const positions = [];
+  for (let i = 0; i + phraseTokens.length <= tokens.length; i++) {
+    if (phraseTokens.every((token, offset) => tokens[i + offset] === token)) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+export function countPhrase(text, phrase) {
+  return findPhraseMatches(matchTokens(text), phrase).length;
+}
+
+export function containsPhrase(text, phrase) {
+  return countPhrase(text, phrase) > 0;
+}
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DIRECTORY = path.join(__dirname, 'storage', 'projects');
+
+export const MAX_PROJECT_NAME_LENGTH = 100;
+
+// Oldest snapshots are dropped past this many, so a long-lived project can't grow the store forever
+const SNAPSHOT_LIMIT = 50;
+
+// The headline numbers of a snapshot, kept in the index so a trend can be drawn without
+// reading any snapshot file
+const versionSummary = ({ version, createdAt, settings, analysis }) => ({
+  version,
+  createdAt,
+  settings,
+  wordCount: analysis.metrics.wordCount,
+  readabilityScore: analysis.metrics.readabilityScore,
+  seoScore: analysis.seoScore ?? null
+});
+
+// What the sidebar lists: no text or analysis, just enough to pick a project
+function summarize(project) {
+  const latest = project.versions[project.versions.length - 1];
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    snapshotCount: project.versions.length,
+    latestVersion: latest ? latest.version : null
+  };
+}
+
+// Projects kept one directory each, with one file per snapshot written once. index.json holds
+// every project's name and version list, no texts or analyses, so it stays small and is cheap to
+// rewrite (through a temporary file, so a crash mid-write never leaves a truncated index).
+export function createFileProjectStore(directory) {
+  const indexFile = path.join(directory, 'index.json');
+  let projects = null;
+
+  const writeJson = (file, value) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const temporary = `${file}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(value));
+    fs.renameSync(temporary, file);
+  };
+
+  const save = () => writeJson(indexFile, { projects });
+
+  // Files are only ever addressed through ids already in the index
+  const snapshotFile = (project, version) => path.join(directory, project.id, `${version}.json`);
+
+  const load = () => {
+    if (!projects) {
+      projects = fs.existsSync(indexFile) ? JSON.parse(fs.readFileSync(indexFile, 'utf8')).projects : [];
+    }
+    return projects;
+  };
+
+  const find = id => load().find(project => project.id === id) || null;
+
+  const readSnapshot = (project, version) => {
+    const file = snapshotFile(project, version);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+  };
+
+  // A project with its version list; only the latest snapshot is sent in full
+  const detail = project => {
+    const latest = project.versions[project.versions.length - 1];
+    return {
+      ...summarize(project),
+      snapshots: project.versions,
+      latest: latest ? readSnapshot(project, latest.version) : null
+    };
+  };
+
+  return {
+    list() {
+      return load()
+        .map(summarize)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    get(id) {
+      const project = find(id);
+      return project ? detail(project) : null;
+    },
+
+    getSnapshot(id, version) {
+      const project = find(id);
+      return project && project.versions.some(entry => entry.version === version) ? readSnapshot(project, version) : null;
+    },
+
+    create(name) {
+      const now = new Date().toISOString();
+      const project = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, nextVersion: 1, versions: [] };
+      load().push(project);
+      save();
+      return detail(project);
+    },
+
+    rename(id, name) {
+      const project = find(id);
+      if (!project) return null;
+      project.name = name;
+      project.updatedAt = new Date().toISOString();
+      save();
+      return summarize(project);
+    },
+
+    remove(id) {
+      const index = load().findIndex(project => project.id === id);
+      if (index === -1) return false;
+      const [project] = projects.splice(index, 1);
+      save();
+      fs.rmSync(path.join(directory, project.id), { recursive: true, force: true });
+      return true;
+    },
+
+    // Versions keep counting up after old snapshots are dropped, so a version number always
+    // means the same text
+    addSnapshot(id, { text, settings, analysis }) {
+      const project = find(id);
+      if (!project) return null;
+      const snapshot = { version: project.nextVersion++, createdAt: new Date().toISOString(), text, settings, analysis };
+      writeJson(snapshotFile(project, snapshot.version), snapshot);
+
+      const versions = [...project.versions, versionSummary(snapshot)];
+      const dropped = versions.slice(0, Math.max(0, versions.length - SNAPSHOT_LIMIT));
+      project.versions = versions.slice(dropped.length);
+      project.updatedAt = snapshot.createdAt;
+      save();
+      dropped.forEach(entry => fs.rmSync(snapshotFile(project, entry.version), { force: true }));
+      return snapshot;
+    }
+  };
+}
+
+// Active store; PROJECTS_DIR moves it, e.g. onto a persistent volume
+const store = createFileProjectStore(process.env.PROJECTS_DIR || DEFAULT_DIRECTORY);
+
+export function getProjectStore() {
+  return store;
+}
@@ -0,0 +1,190 @@
+// Words whose pronunciation defeats the vowel-group heuristic below
+const SYLLABLE_EXCEPTIONS = {
+  area: 3,
+  being: 2,
+  business: 2,
+  cooperate: 4,
+  cooperated: 5,
+  cooperates: 4,
+  cooperating: 5,
+  cooperation: 5,
+  cooperative: 5,
+  create: 2,
+  created: 3,
+  creates: 2,
+  creating: 3,
+  creation: 3,
+  creations: 3,
+  creative: 3,
+  creator: 3,
+  creators: 3,
+  different: 3,
+  every: 3,
+  everyone: 4,
+  everything: 4,
+  family: 3,
+  idea: 3,
+  ideal: 3,
+  ideas: 3,
+  kubernetes: 4,
+  maybe: 2,
+  naive: 2,
+  people: 2,
+  poem: 2,
+  poet: 2,
+  quiet: 2,
+  react: 2,
+  realize: 3,
+  realized: 3,
+  realizes: 4,
+  realizing: 4,
+  recipe: 3,
+  recipes: 3,
+  science: 2,
+  scientific: 4,
+  scientist: 3,
+  scientists: 3,
+  seo: 3,
+  society: 4,
+  someone: 2,
+  something: 2,
+  sometimes: 2,
+  union: 2,
+  unions: 2,
+  user: 2,
+  users: 2,
+  variety: 4,
+  wednesday: 2,
+  fire: 1,
+  hour: 1,
+  our: 1,
+  queue: 1,
+  one: 1,
+  once: 1,
+  eye: 1,
+  eyes: 1
+};
+
+// Adjacent vowels that are pronounced as two syllables ("piano", "video", "client", "going")
+const SPLIT_VOWEL_PATTERNS = [
+  /[^ct]ia/, /[^tsc]io/, /eo/, /[^gq]ua/, /uo/, /ii(?!ng$)/, /^mc/, /ism$/,
+  /ie(r|st|t)$/, /uity$/, /[^tcs]ien/, /thm$/, /[aeiouy]ing$/
+];
+
+// Vowel groups that the counting above over-counts ("religious", "lovely")
+const MERGED_VOWEL_PATTERNS = [/gious/, /[^aeiouy]ely$/];
+
+// Estimate the number of syllables in a single word
+export function countSyllables(rawWord) {
+  const word = rawWord.normalize('NFD').toLowerCase().replace(/[^a-z]/g, '');
+  if (word.length === 0) return 0;
+  if (SYLLABLE_EXCEPTIONS[word]) return SYLLABLE_EXCEPTIONS[word];
+  if (word.length <= 3) return 1;
+
+  // Drop silent endings: "makes", "walked", "cake", "while" (but keep "boxes", "wanted", and
+  // "-le" after a consonant as in "table", "tables", "settled")
+  let stem = word;
+  if (!/[^laeiouy]le[sd]?$/.test(stem)) {
+    if (!/(?:[sxzcg]|[cs]h)es$/.test(stem)) {
+      stem = stem.replace(/([^aeiouy])es$/, '$1');
+    }
+    stem = stem
+      .replace(/([^aeiouytd])ed$/, '$1')
+      .replace(/([^aeiouy])e$/, '$1');
+  }
+  stem = stem.replace(/^y/, '');
+
+  let count = (stem.match(/[aeiouy]+/g) || []).length;
+  SPLIT_VOWEL_PATTERNS.forEach(pattern => {
+    if (pattern.test(word)) count += 1;
+  });
+  MERGED_VOWEL_PATTERNS.forEach(pattern => {
+    if (pattern.test(word)) count -= 1;
+  });
+
+  return Math.max(1, count);
+}
+
+// Split text into alphabetic words in any script, dropping numbers and surrounding punctuation
+export function extractWords(text) {
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{M}'-]/gu, '').replace(/^['-]+|['-]+$/g, ''))
+    .filter(word => word.length > 0);
+}
+
+// Average syllables per word across the text
+export function averageSyllablesPerWord(text) {
+  const words = extractWords(text);
+  if (words.length === 0) return 0;
+
+  const totalSyllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  return totalSyllables / words.length;
+}
+
+// Flesch Reading Ease, clamped to the 0-100 range shown in the UI
+export function fleschReadingEase(avgSentenceLength, avgSyllablesPerWord) {
+  return Math.max(0, Math.min(100,
+    206.835 - (1.015 * avgSentenceLength) - (84.6 * avgSyllablesPerWord)
+  ));
+}
+
+// Labels for the Flesch Reading Ease score, matching the SEOAnalyzer readability card
+function readingEaseBand(score) {
+  if (score >= 90) return 'Very Easy';
+  if (score >= 80) return 'Easy';
+  if (score >= 70) return 'Fairly Easy';
+  if (score >= 60) return 'Standard';
+  if (score >= 50) return 'Fairly Difficult';
+  if (score >= 30) return 'Difficult';
+  return 'Very Difficult';
+}
+
+// Audience band for formulas that produce a US school grade level
+function gradeBand(grade) {
+  if (grade < 6) return 'Elementary School';
+  if (grade < 9) return 'Middle School';
+  if (grade < 13) return 'High School';
+  if (grade < 17) return 'College';
+  return 'Graduate';
+}
+
+const round1 = value => Math.round(value * 10) / 10;
+
+// Score the text against the common readability formulas.
+// Word and sentence counts come from analyzeSEO so every formula shares the same basis.
+export function readabilityReport(text, { wordCount, sentenceCount }) {
+  const words = extractWords(text);
+  const safeWordCount = Math.max(wordCount, 1);
+  const safeSentenceCount = Math.max(sentenceCount, 1);
+
+  const syllableCounts = words.map(countSyllables);
+  const totalSyllables = syllableCounts.reduce((sum, count) => sum + count, 0);
+  const polysyllables = syllableCounts.filter(count => count >= 3).length;
+  const letters = words.reduce((sum, word) => sum + word.replace(/[^\p{L}\p{M}]/gu, '').length, 0);
+
+  const avgSentenceLength = wordCount / safeSentenceCount;
+  const avgSyllablesPerWord = words.length > 0 ? totalSyllables / words.length : 0;
+  const complexWordRatio = words.length > 0 ? polysyllables / words.length : 0;
+
+  const readingEase = fleschReadingEase(avgSentenceLength, avgSyllablesPerWord);
+  const fleschKincaidGrade = 0.39 * avgSentenceLength + 11.8 * avgSyllablesPerWord - 15.59;
+  const gunningFog = 0.4 * (avgSentenceLength + 100 * complexWordRatio);
+  const smog = 1.043 * Math.sqrt(polysyllables * (30 / safeSentenceCount)) + 3.1291;
+  const colemanLiau = 0.0588 * (letters / safeWordCount * 100) - 0.296 * (sentenceCount / safeWordCount * 100) - 15.8;
+  const automatedReadabilityIndex = 4.71 * (letters / safeWordCount) + 0.5 * avgSentenceLength - 21.43;
+
+  const graded = grade => {
+    const score = round1(Math.max(0, grade));
+    return { score, band: gradeBand(score) };
+  };
+
+  return {
+    fleschReadingEase: { score: round1(readingEase), band: readingEaseBand(readingEase) },
+    fleschKincaidGrade: graded(fleschKincaidGrade),
+    gunningFog: graded(gunningFog),
+    smog: graded(smog),
+    colemanLiau: graded(colemanLiau),
+    automatedReadabilityIndex: graded(automatedReadabilityIndex)
+  };
+}
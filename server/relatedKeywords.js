@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getKeywordMetricsProvider } from './keywordMetrics.js';
+import { countNgrams, isPhraseCandidate, splitParagraphs } from './text.js';
+import { getStopwords } from './language.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CORPUS_FILE = path.join(__dirname, 'data', 'background-corpus.txt');
+
+// Minimum cosine similarity for a corpus document to count as on-topic
+const MIN_DOCUMENT_SIMILARITY = 0.05;
+
+// Two-word phrases make the most natural keywords; single words are the weakest suggestions
+const LENGTH_WEIGHTS = { 1: 0.4, 2: 1, 3: 0.7 };
+
+// Each background document is kept as its n-gram counts; document frequency feeds IDF
+function loadCorpus(filePath) {
+  const documents = splitParagraphs(fs.readFileSync(filePath, 'utf8'))
+    .map(paragraph => countNgrams(paragraph, { minWords: 1, maxWords: 3 }));
+
+  const documentFrequency = new Map();
+  documents.forEach(grams => {
+    grams.forEach((_, gram) => {
+      documentFrequency.set(gram, (documentFrequency.get(gram) || 0) + 1);
+    });
+  });
+
+  return { documents, documentFrequency };
+}
+
+const corpus = loadCorpus(CORPUS_FILE);
+
+// Smoothed IDF: terms unseen in the corpus get the highest weight
+function idf(gram) {
+  const df = corpus.documentFrequency.get(gram) || 0;
+  return Math.log((corpus.documents.length + 1) / (df + 1)) + 1;
+}
+
+// TF-IDF weights for single terms in an n-gram count map
+function termVector(grams) {
+  const vector = new Map();
+  let total = 0;
+  grams.forEach((count, gram) => {
+    if (!gram.includes(' ')) total += count;
+  });
+  grams.forEach((count, gram) => {
+    if (!gram.includes(' ')) vector.set(gram, (count / Math.max(total, 1)) * idf(gram));
+  });
+  return vector;
+}
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    if (b.has(term)) dot += weight * b.get(term);
+  });
+  const norm = vector => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+// Scale scores so the best candidate from each source is 1
+function normalizeScores(scores) {
+  const max = Math.max(0, ...scores.values());
+  if (max === 0) return new Map();
+  return new Map([...scores].map(([keyword, score]) => [keyword, score / max]));
+}
+
+// Multi-word phrases from the draft itself, weighted by the TF-IDF of their terms
+function scoreTextPhrases(grams, vector) {
+  const scores = new Map();
+  grams.forEach((count, gram) => {
+    if (!isPhraseCandidate(gram)) return;
+    const terms = gram.split(' ');
+    const weight = terms.reduce((sum, term) => sum + (vector.get(term) || 0), 0) / terms.length;
+    scores.set(gram, weight * Math.log2(1 + count) * LENGTH_WEIGHTS[terms.length]);
+  });
+  return scores;
+}
+
+// A corpus phrase is worth suggesting when it recurs across documents or is a tracked keyword,
+// which filters out one-off fragments of a sentence
+function isEstablishedPhrase(gram) {
+  if (!isPhraseCandidate(gram)) return false;
+  return (corpus.documentFrequency.get(gram) || 0) >= 2 || getKeywordMetricsProvider().lookup(gram) !== null;
+}
+
+// Terms and phrases that co-occur with the draft's vocabulary in similar corpus documents
+// but are missing from the draft
+function scoreCorpusCooccurrence(grams, vector) {
+  const scores = new Map();
+
+  corpus.documents.forEach(documentGrams => {
+    const similarity = cosineSimilarity(vector, termVector(documentGrams));
+    if (similarity < MIN_DOCUMENT_SIMILARITY) return;
+
+    documentGrams.forEach((count, gram) => {
+      if (grams.has(gram)) return;
+      const terms = gram.split(' ');
+      if (terms.length > 1 && !isEstablishedPhrase(gram)) return;
+      const weight = terms.reduce((sum, term) => sum + idf(term), 0) / terms.length;
+      // Favour phrases that share a term with the draft
+      const overlap = terms.some(term => vector.has(term)) ? 1.5 : 1;
+      const score = similarity * count * weight * overlap * LENGTH_WEIGHTS[terms.length];
+      scores.set(gram, (scores.get(gram) || 0) + score);
+    });
+  });
+
+  return scores;
+}
+
+// Related keyword suggestions for the text: distinctive phrases already in the draft plus
+// topical phrases borrowed from the most similar background documents. The background
+// corpus is English, so other languages only get suggestions from the draft itself.
+// Returns { keyword, frequency, relevance } with relevance on a 0-100 scale.
+export function suggestRelatedKeywords(text, { limit = 8, exclude = [], language = 'en' } = {}) {
+  const grams = countNgrams(text, { minWords: 1, maxWords: 3, stopwords: getStopwords(language) });
+  const vector = termVector(grams);
+  const excluded = exclude.map(keyword => ` ${keyword.toLowerCase()} `);
+
+  const sources = [scoreTextPhrases(grams, vector)];
+  if (language === 'en') sources.push(scoreCorpusCooccurrence(grams, vector));
+
+  const candidates = new Map();
+  sources.forEach(scores => {
+    normalizeScores(scores).forEach((score, keyword) => {
+      // Already listed, or only ever part of a listed keyword
+      if (excluded.some(listed => listed.includes(` ${keyword} `))) return;
+      candidates.set(keyword, Math.max(candidates.get(keyword) || 0, score));
+    });
+  });
+
+  const selected = [];
+  [...candidates]
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([keyword, score]) => {
+      if (selected.length >= limit) return;
+      // Skip phrases that are contained in, or contain, a suggestion we already picked
+      const overlaps = selected.some(({ keyword: picked }) =>
+        ` ${picked} `.includes(` ${keyword} `) || ` ${keyword} `.includes(` ${picked} `)
+      );
+      if (overlaps) return;
+      selected.push({
+        keyword,
+        frequency: grams.get(keyword) || 0,
+        relevance: Math.round(20 + score * 80)
+      });
+    });
+
+  return selected;
+}
@@ -0,0 +1,243 @@
+import { createPdfDocument, parseColor } from './pdf.js';
+
+export const REPORT_FORMATS = ['html', 'pdf', 'csv', 'json'];
+
+export const DEFAULT_BRAND = {
+  name: process.env.REPORT_BRAND_NAME || 'SEO Analyzer',
+  color: /^#[0-9a-f]{6}$/i.test(process.env.REPORT_BRAND_COLOR || '') ? process.env.REPORT_BRAND_COLOR : '#2563eb'
+};
+
+const CONTENT_TYPES = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+const READABILITY_FORMULAS = [
+  ['fleschReadingEase', 'Flesch Reading Ease'],
+  ['fleschKincaidGrade', 'Flesch-Kincaid Grade'],
+  ['gunningFog', 'Gunning Fog'],
+  ['smog', 'SMOG'],
+  ['colemanLiau', 'Coleman-Liau'],
+  ['automatedReadabilityIndex', 'Automated Readability Index']
+];
+
+const KEYWORD_COLUMNS = [
+  ['keyword', 'Keyword'],
+  ['type', 'Type'],
+  ['frequency', 'Used'],
+  ['relevance', 'Relevance'],
+  ['searchVolume', 'Search volume'],
+  ['difficulty', 'Difficulty'],
+  ['cpc', 'CPC'],
+  ['metricsSource', 'Metrics source']
+];
+
+const OUTCOME_LABELS = { pass: 'Pass', warn: 'Warning', fail: 'Fail', skipped: 'Not applicable' };
+
+const capitalize = value => value.charAt(0).toUpperCase() + value.slice(1);
+
+// The shape every renderer needs, so a report built from a stored or freshly computed
+// analysis says the same thing in each format
+const isAnalysis = analysis => Boolean(analysis) && typeof analysis === 'object' &&
+  analysis.metrics && analysis.readability !== undefined && analysis.scoring && analysis.annotations &&
+  Array.isArray(analysis.keywords) && Array.isArray(analysis.suggestions);
+
+export function validateReportAnalysis(analysis) {
+  return isAnalysis(analysis) ? null : 'Analysis must be a result returned by the analyze endpoints';
+}
+
+// Everything a client report shows, in display order
+function reportContent(analysis, { updatedText, title, generatedAt }) {
+  const { metrics, readability, scoring, focus, language } = analysis;
+  const analyzedText = analysis.annotations.text;
+  const text = typeof updatedText === 'string' && updatedText.trim() ? updatedText : analyzedText;
+
+  const summary = [
+    ['SEO score', `${analysis.seoScore}/100 (${scoring.profile?.name || 'General'} profile)`],
+    ['Word count', metrics.wordCount.toLocaleString('en-US')],
+    ['Sentences', String(metrics.sentenceCount)],
+    ['Paragraphs', String(metrics.paragraphCount)],
+    ...(readability ? [['Reading ease', `${metrics.readabilityScore}${readability.fleschReadingEase?.band ? ` (${readability.fleschReadingEase.band})` : ''}`]] : []),
+    ['Average sentence length', `${metrics.avgWordsPerSentence} words`],
+    ...(language ? [['Language', language.name || language.code]] : []),
+    ...(focus ? [['Focus keyword', `${focus.primary.keyword} (${focus.primary.density}% density)`]] : [])
+  ];
+
+  return {
+    title: title || 'SEO Report',
+    generatedAt,
+    summary,
+    // Only English text has readability scores
+    readability: readability && READABILITY_FORMULAS
+      .filter(([key]) => readability[key])
+      .map(([key, label]) => [label, String(readability[key].score), readability[key].band]),
+    rules: (scoring.rules || []).map(rule => [rule.label, OUTCOME_LABELS[rule.outcome] || rule.outcome, rule.message]),
+    keywords: analysis.keywords,
+    suggestions: [...analysis.suggestions].sort((a, b) => (PRIORITY_ORDER[a.priority] ?? 3) - (PRIORITY_ORDER[b.priority] ?? 3)),
+    text,
+    textUpdated: text !== analyzedText
+  };
+}
+
+const escapeHtml = value => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const htmlTable = (headers, rows) => `<table>
+  <thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+  <tbody>
+${rows.map(row => `    <tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+  </tbody>
+</table>`;
+
+const keywordRow = keyword => [
+  keyword.keyword,
+  keyword.type,
+  String(keyword.frequency),
+  `${Math.round(keyword.relevance)}%`,
+  Number(keyword.searchVolume).toLocaleString('en-US'),
+  `${keyword.difficulty}/100`,
+  `$${Number(keyword.cpc).toFixed(2)}`
+];
+
+const KEYWORD_HEADERS = ['Keyword', 'Type', 'Used', 'Relevance', 'Search volume', 'Difficulty', 'CPC'];
+
+function renderHtml(content, brand) {
+  const date = content.generatedAt.toISOString().slice(0, 10);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.title)} | ${escapeHtml(brand.name)}</title>
+<style>
+  :root { --brand: ${brand.color}; }
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; max-width: 900px; margin: 0 auto; padding: 32px 24px; line-height: 1.5; }
+  header { background: var(--brand); color: #fff; padding: 20px 24px; border-radius: 8px; }
+  header h1 { margin: 0; font-size: 24px; }
+  header p { margin: 4px 0 0; opacity: 0.9; }
+  h2 { color: var(--brand); border-bottom: 2px solid var(--brand); padding-bottom: 4px; margin-top: 32px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .priority { display: inline-block; min-width: 64px; font-size: 12px; font-weight: 600; text-transform: uppercase; }
+  .priority-high { color: #dc2626; }
+  .priority-medium { color: #d97706; }
+  .priority-low { color: #6b7280; }
+  .content { white-space: pre-wrap; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; font-size: 14px; }
+  footer { margin-top: 40px; font-size: 12px; color: #6b7280; }
+  @media print { body { padding: 0; } header { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(content.title)}</h1>
+  <p>${escapeHtml(brand.name)} · ${date}</p>
+</header>
+
+<h2>Summary</h2>
+${htmlTable(['Metric', 'Value'], content.summary)}
+
+${content.readability ? `<h2>Readability</h2>
+${htmlTable(['Formula', 'Score', 'Level'], content.readability)}
+
+` : ''}<h2>Score Breakdown</h2>
+${htmlTable(['Check', 'Result', 'Details'], content.rules)}
+
+<h2>Keywords</h2>
+${htmlTable(KEYWORD_HEADERS, content.keywords.map(keywordRow))}
+
+<h2>Suggestions</h2>
+<ul>
+${content.suggestions.map(suggestion => `  <li><span class="priority priority-${escapeHtml(suggestion.priority)}">${escapeHtml(suggestion.priority)}</span> ${escapeHtml(suggestion.message)}</li>`).join('\n')}
+</ul>
+
+<h2>${content.textUpdated ? 'Updated Content' : 'Content'}</h2>
+<div class="content">${escapeHtml(content.text)}</div>
+
+<footer>Generated by ${escapeHtml(brand.name)} on ${content.generatedAt.toUTCString()}</footer>
+</body>
+</html>
+`;
+}
+
+function renderPdf(content, brand) {
+  const color = parseColor(brand.color);
+  const date = content.generatedAt.toISOString().slice(0, 10);
+  const pdf = createPdfDocument({ title: content.title, footer: `${brand.name} · ${content.title} · ${date}` });
+
+  pdf.banner(content.title, { color, subtitle: `${brand.name} · ${date}` });
+
+  pdf.heading('Summary', { color });
+  pdf.table([{ label: 'Metric', width: 0.35 }, { label: 'Value', width: 0.65 }], content.summary);
+
+  if (content.readability) {
+    pdf.heading('Readability', { color });
+    pdf.table([{ label: 'Formula', width: 0.5 }, { label: 'Score', width: 0.15, align: 'right' }, { label: 'Level', width: 0.35 }], content.readability);
+  }
+
+  pdf.heading('Score Breakdown', { color });
+  pdf.table([{ label: 'Check', width: 0.28 }, { label: 'Result', width: 0.14 }, { label: 'Details', width: 0.58 }], content.rules);
+
+  pdf.heading('Keywords', { color });
+  pdf.table([
+    { label: 'Keyword', width: 0.3 },
+    { label: 'Type', width: 0.1 },
+    { label: 'Used', width: 0.08, align: 'right' },
+    { label: 'Relevance', width: 0.12, align: 'right' },
+    { label: 'Volume', width: 0.14, align: 'right' },
+    { label: 'Difficulty', width: 0.14, align: 'right' },
+    { label: 'CPC', width: 0.12, align: 'right' }
+  ], content.keywords.map(keywordRow));
+
+  pdf.heading('Suggestions', { color });
+  content.suggestions.forEach(suggestion => {
+    pdf.paragraph(`${capitalize(suggestion.priority)} priority`, { size: 8, bold: true, color: suggestion.priority === 'high' ? [0.86, 0.15, 0.15] : [0.45, 0.45, 0.45] });
+    pdf.paragraph(suggestion.message);
+  });
+
+  pdf.heading(content.textUpdated ? 'Updated Content' : 'Content', { color });
+  content.text.split(/\n{2,}/).forEach(block => pdf.paragraph(block.trim()));
+
+  return pdf.toBuffer();
+}
+
+// Spreadsheet apps run text cells that start with these as formulas; numbers are left alone
+const csvCell = value => {
+  let text = String(value ?? '');
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows of cells as CSV with CRLF line endings
+export const toCsv = rows => `${rows.map(row => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+
+// The Keywords table with raw numbers, one row per keyword
+function renderCsv(content) {
+  const rows = [
+    KEYWORD_COLUMNS.map(([, label]) => label),
+    ...content.keywords.map(keyword => KEYWORD_COLUMNS.map(([key]) => (key === 'relevance' ? Math.round(keyword.relevance * 10) / 10 : keyword[key])))
+  ];
+  return toCsv(rows);
+}
+
+// Render an analysis as a downloadable report. Returns { body, contentType, filename }.
+// updatedText is the draft after keyword insertions; title heads the HTML and PDF reports.
+export function renderReport(analysis, format, { updatedText, title, brand = DEFAULT_BRAND, generatedAt = new Date() } = {}) {
+  const filename = `seo-report-${generatedAt.toISOString().slice(0, 10)}.${format}`;
+  const content = reportContent(analysis, { updatedText, title, generatedAt });
+
+  const body = format === 'json' ? `${JSON.stringify(analysis, null, 2)}\n`
+    : format === 'csv' ? renderCsv(content)
+    : format === 'pdf' ? renderPdf(content, brand)
+    : renderHtml(content, brand);
+
+  return { body, contentType: CONTENT_TYPES[format], filename };
+}
@@ -0,0 +1,294 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { MAX_DENSITY, MIN_DENSITY } from './focus.js';
+import { SERP_LIMITS } from './meta.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const BUILT_IN_PROFILES = path.join(__dirname, 'data', 'rule-profiles');
+const CUSTOM_PROFILES = process.env.RULE_PROFILES_DIR || path.join(__dirname, 'storage', 'rule-profiles');
+
+export const DEFAULT_RULE_PROFILE = 'general';
+
+// Share of a rule's weight each outcome earns
+const OUTCOME_POINTS = { pass: 1, warn: 0.5, fail: 0 };
+
+const PROFILE_ID = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+const outcome = (result, message) => ({ outcome: result, message });
+
+// Pass when the value is at least `good`, warn down to `poor`, fail below that
+const atLeast = (value, good, poor) => (value >= good ? 'pass' : value >= poor ? 'warn' : 'fail');
+
+function metaFieldRule(name) {
+  const label = name === 'title' ? 'Meta title' : 'Meta description';
+  return {
+    category: 'meta',
+    label,
+    defaults: { minLength: SERP_LIMITS[name].minLength },
+    evaluate({ meta }, { minLength }) {
+      const field = meta[name];
+      if (field.source === 'generated') {
+        return outcome('fail', `No ${label.toLowerCase()} provided; search engines will write their own.`);
+      }
+      if (field.desktop.truncated) {
+        return outcome('warn', `${label} will be cut off in desktop results.`);
+      }
+      if (field.length < minLength) {
+        return outcome('warn', `${label} is ${field.length} characters; aim for at least ${minLength}.`);
+      }
+      if (field.containsFocusKeyword === false) {
+        return outcome('warn', `${label} doesn't contain the focus keyword.`);
+      }
+      return outcome('pass', `${label} fits the snippet${field.containsFocusKeyword ? ' and contains the focus keyword' : ''}.`);
+    }
+  };
+}
+
+// Checks a profile can weight. Each reads the finished analysis and returns a pass/warn/fail
+// outcome, or null when it doesn't apply (no focus keyword, no images, plain text links).
+// `defaults` are the thresholds a profile may override.
+export const RULES = {
+  'word-count': {
+    category: 'length',
+    label: 'Content length',
+    defaults: { min: 300, max: 2000 },
+    evaluate({ metrics }, { min, max }) {
+      const words = metrics.wordCount;
+      if (words > max) return outcome('warn', `${words} words; consider splitting content longer than ${max} words.`);
+      return outcome(atLeast(words, min, min / 2), `${words} words (target ${min}-${max}).`);
+    }
+  },
+  readability: {
+    category: 'readability',
+    label: 'Reading ease',
+    defaults: { good: 60, poor: 30 },
+    evaluate({ metrics }, { good, poor }) {
+      if (metrics.readabilityScore === null) return null;
+      return outcome(atLeast(metrics.readabilityScore, good, poor), `Flesch Reading Ease ${metrics.readabilityScore} (target ${good}+).`);
+    }
+  },
+  'sentence-length': {
+    category: 'readability',
+    label: 'Sentence length',
+    defaults: { max: 20, hardMax: 25 },
+    evaluate({ metrics }, { max, hardMax }) {
+      const average = metrics.avgWordsPerSentence;
+      const result = average <= max ? 'pass' : average <= hardMax ? 'warn' : 'fail';
+      return outcome(result, `${average} words per sentence on average (target ${max} or fewer).`);
+    }
+  },
+  'passive-voice': {
+    category: 'readability',
+    label: 'Passive voice',
+    defaults: { max: 10 },
+    evaluate({ style }, { max }) {
+      if (!style) return null;
+      const result = style.passivePercent < max ? 'pass' : style.passivePercent < max * 2 ? 'warn' : 'fail';
+      return outcome(result, `${style.passivePercent}% of sentences are passive (target under ${max}%).`);
+    }
+  },
+  'transition-words': {
+    category: 'readability',
+    label: 'Transition words',
+    defaults: { min: 30 },
+    evaluate({ style }, { min }) {
+      if (!style || style.sentenceCount < 2) return null;
+      const result = style.transitionPercent > min ? 'pass' : style.transitionPercent > min / 2 ? 'warn' : 'fail';
+      return outcome(result, `${style.transitionPercent}% of sentences use a transition word (target over ${min}%).`);
+    }
+  },
+  'keyword-density': {
+    category: 'keywords',
+    label: 'Focus keyword density',
+    defaults: { min: MIN_DENSITY, max: MAX_DENSITY },
+    evaluate({ focus }, { min, max }) {
+      if (!focus) return null;
+      const { keyword, occurrences, density } = focus.primary;
+      if (occurrences === 0) return outcome('fail', `"${keyword}" doesn't appear in the text.`);
+      // Far past the limit reads as keyword stuffing
+      const result = density > max * 2 ? 'fail' : density >= min && density <= max ? 'pass' : 'warn';
+      return outcome(result, `"${keyword}" density is ${density}% (target ${min}-${max}%).`);
+    }
+  },
+  'keyword-placement': {
+    category: 'keywords',
+    label: 'Focus keyword placement',
+    defaults: {},
+    evaluate({ focus }) {
+      if (!focus) return null;
+      const { inFirstParagraph, inHeadings, headingCount, inConclusion } = focus.primary;
+      const placements = [inFirstParagraph > 0, headingCount === 0 || inHeadings > 0, inConclusion > 0];
+      const met = placements.filter(Boolean).length;
+      const result = met === placements.length ? 'pass' : met > 0 ? 'warn' : 'fail';
+      return outcome(result, `Used in ${met} of ${placements.length} key places (first paragraph, headings, conclusion).`);
+    }
+  },
+  'keyword-diversity': {
+    category: 'keywords',
+    label: 'Keyword diversity',
+    defaults: { min: 5 },
+    evaluate({ keywords }, { min }) {
+      const repeated = keywords.filter(keyword => keyword.frequency >= 2).length;
+      return outcome(atLeast(repeated, min, Math.ceil(min / 2)), `${repeated} keywords are used more than once (target ${min}+).`);
+    }
+  },
+  headings: {
+    category: 'structure',
+    label: 'Headings',
+    defaults: { minWords: 300 },
+    evaluate({ structure, metrics }, { minWords }) {
+      if (structure.format === 'text') {
+        if (metrics.wordCount <= minWords) return null;
+        return structure.headings.length > 0
+          ? outcome('pass', `${structure.headings.length} headings break up the text.`)
+          : outcome('fail', 'Long content without headings.');
+      }
+      if (structure.h1Count === 0) return outcome('fail', 'No H1 heading.');
+      if (structure.h1Count > 1 || structure.hierarchyGaps.length > 0) {
+        return outcome('warn', `${structure.h1Count} H1 headings and ${structure.hierarchyGaps.length} skipped heading levels.`);
+      }
+      return outcome('pass', 'One H1 and a well-nested outline.');
+    }
+  },
+  'image-alt': {
+    category: 'structure',
+    label: 'Image alt text',
+    defaults: {},
+    evaluate({ structure }) {
+      const { imageCount, imagesMissingAlt } = structure;
+      if (imageCount === 0) return null;
+      const missing = imagesMissingAlt.length;
+      const result = missing === 0 ? 'pass' : missing < imageCount / 2 ? 'warn' : 'fail';
+      return outcome(result, `${imageCount - missing} of ${imageCount} images have alt text.`);
+    }
+  },
+  links: {
+    category: 'structure',
+    label: 'Links',
+    defaults: {},
+    evaluate({ structure }) {
+      if (structure.format === 'text') return null;
+      const { internalLinks, externalLinks } = structure;
+      const result = internalLinks > 0 && externalLinks > 0 ? 'pass' : internalLinks > 0 || externalLinks > 0 ? 'warn' : 'fail';
+      return outcome(result, `${internalLinks} internal and ${externalLinks} external links.`);
+    }
+  },
+  'meta-title': metaFieldRule('title'),
+  'meta-description': metaFieldRule('description')
+};
+
+// Check a profile's shape and fill in each rule's default thresholds.
+// Throws with a message naming the first problem.
+export function parseRuleProfile(profile) {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    throw new Error('Rule profile must be a JSON object');
+  }
+  const { id, name, description = '', rules } = profile;
+  if (typeof id !== 'string' || !PROFILE_ID.test(id)) {
+    throw new Error('Rule profile id must be 1-50 lowercase letters, digits or hyphens');
+  }
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new Error('Rule profile name is required');
+  }
+  if (typeof description !== 'string') {
+    throw new Error('Rule profile description must be a string');
+  }
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules) || Object.keys(rules).length === 0) {
+    throw new Error('Rule profile must weight at least one rule');
+  }
+
+  const parsedRules = Object.entries(rules).map(([ruleId, settings]) => {
+    const rule = RULES[ruleId];
+    if (!rule) {
+      throw new Error(`Unknown rule "${ruleId}". Available rules: ${Object.keys(RULES).join(', ')}`);
+    }
+    const { weight, ...params } = settings || {};
+    if (typeof weight !== 'number' || !(weight >= 0)) {
+      throw new Error(`Rule "${ruleId}" needs a weight of 0 or more`);
+    }
+    Object.entries(params).forEach(([param, value]) => {
+      if (!(param in rule.defaults)) {
+        throw new Error(`Rule "${ruleId}" has no "${param}" setting`);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Rule "${ruleId}" setting "${param}" must be a number`);
+      }
+    });
+    return [ruleId, { weight, ...rule.defaults, ...params }];
+  });
+
+  return { id, name: name.trim(), description, rules: Object.fromEntries(parsedRules) };
+}
+
+// Profiles in a directory; a file that isn't a valid profile is skipped with a warning, so
+// one bad file can't keep the server from starting
+function readProfiles(directory, source) {
+  if (!fs.existsSync(directory)) return [];
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .flatMap(file => {
+      try {
+        return [{ ...parseRuleProfile(JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'))), source }];
+      } catch (error) {
+        console.warn(`Skipping rule profile ${file}: ${error.message}`);
+        return [];
+      }
+    });
+}
+
+// Built-in profiles ship in server/data; team profiles live in RULE_PROFILES_DIR and can be
+// added at runtime, but never replace a built-in one. A team file reusing a built-in id is
+// skipped with a warning.
+const profiles = new Map(readProfiles(BUILT_IN_PROFILES, 'built-in').map(profile => [profile.id, profile]));
+readProfiles(CUSTOM_PROFILES, 'custom').forEach(profile => {
+  if (profiles.has(profile.id)) {
+    console.warn(`Skipping team rule profile "${profile.id}": a built-in profile has that id`);
+    return;
+  }
+  profiles.set(profile.id, profile);
+});
+
+// The default profile first, then by name
+export function listRuleProfiles() {
+  return [...profiles.values()].sort((a, b) =>
+    (b.id === DEFAULT_RULE_PROFILE) - (a.id === DEFAULT_RULE_PROFILE) || a.name.localeCompare(b.name)
+  );
+}
+
+export function getRuleProfile(id) {
+  return profiles.get(id) || null;
+}
+
+// Store a team profile already checked by parseRuleProfile alongside the others and make it
+// selectable
+export function saveRuleProfile(parsed) {
+  if (profiles.get(parsed.id)?.source === 'built-in') {
+    throw new Error(`"${parsed.id}" is a built-in profile; choose another id`);
+  }
+  fs.mkdirSync(CUSTOM_PROFILES, { recursive: true });
+  fs.writeFileSync(path.join(CUSTOM_PROFILES, `${parsed.id}.json`), JSON.stringify(parsed, null, 2));
+  const saved = { ...parsed, source: 'custom' };
+  profiles.set(parsed.id, saved);
+  return saved;
+}
+
+// Weighted score out of 100 with a per-rule breakdown. Rules that don't apply to the
+// document are listed as skipped and left out of the score.
+export function scoreAnalysis(analysis, profile) {
+  const rules = Object.entries(profile.rules).map(([id, { weight, ...params }]) => {
+    const rule = RULES[id];
+    const result = rule.evaluate(analysis, params) || outcome('skipped', 'Not applicable to this document.');
+    return { id, label: rule.label, category: rule.category, weight, ...result };
+  });
+
+  const scored = rules.filter(rule => rule.outcome !== 'skipped');
+  const totalWeight = scored.reduce((sum, rule) => sum + rule.weight, 0);
+  const earned = scored.reduce((sum, rule) => sum + rule.weight * OUTCOME_POINTS[rule.outcome], 0);
+
+  return {
+    profile: { id: profile.id, name: profile.name },
+    score: totalWeight > 0 ? Math.round((earned / totalWeight) * 100) : 100,
+    rules
+  };
+}
@@ -0,0 +1,353 @@
+import { extractHeadings } from './text.js';
+
+export const DOCUMENT_FORMATS = ['text', 'markdown', 'html'];
+
+// Block-level HTML elements that end a paragraph when flattened to text
+const HTML_BLOCK_TAGS = 'p|div|section|article|header|footer|main|aside|nav|h[1-6]|li|ul|ol|blockquote|pre|table|tr|figure|figcaption|br|hr';
+
+const HTML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“' };
+
+export function decodeEntities(value) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Beyond Unicode or a lone surrogate half: not a character, so leave the reference as written
+      const isCharacter = Number.isFinite(code) && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return isCharacter ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Value of an attribute in a single HTML start tag, or null when it is absent
+export function getAttribute(tag, name) {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return null;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+// Every tag ends in '>', so only the text up to the last one can hold any. Matching there alone
+// spares each '<' after it a search to the end of the document.
+const taggedPart = html => html.slice(0, html.lastIndexOf('>') + 1);
+
+function replaceTags(html, pattern, replacement) {
+  const tagged = taggedPart(html);
+  return tagged.replace(pattern, replacement) + html.slice(tagged.length);
+}
+
+const stripTags = html => decodeEntities(replaceTags(html, /<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const collapseParagraphs = text => text
+  .split('\n')
+  .map(line => line.replace(/[ \t]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Each match of `open` with its content up to the first `close(match)` after it, like a lazy
+// /open[\s\S]*?close/g but in one pass: once a closing tag is missing, openers still waiting for it
+// are skipped rather than searched to the end of the document again
+function findElements(html, open, close) {
+  const elements = [];
+  const unclosed = new Set();
+  const searched = taggedPart(html);
+  let match;
+  open.lastIndex = 0;
+  while ((match = open.exec(searched))) {
+    const closeTag = close(match).toLowerCase();
+    if (unclosed.has(closeTag)) continue;
+
+    const closing = new RegExp(closeTag, 'gi');
+    closing.lastIndex = open.lastIndex;
+    const end = closing.exec(searched);
+    if (!end) {
+      unclosed.add(closeTag);
+      continue;
+    }
+    elements.push({ match, start: match.index, end: closing.lastIndex, inner: searched.slice(open.lastIndex, end.index) });
+    open.lastIndex = closing.lastIndex;
+  }
+  return elements;
+}
+
+function removeElements(html, elements) {
+  let kept = '';
+  let from = 0;
+  elements.forEach(({ start, end }) => {
+    kept += html.slice(from, start);
+    from = end;
+  });
+  return kept + html.slice(from);
+}
+
+// Remove markup that never contributes readable text
+export function stripNonContentHtml(html) {
+  const withoutComments = removeElements(html, findElements(html, /<!--/g, () => '-->'));
+  return removeElements(withoutComments, findElements(withoutComments, /<(script|style|noscript|template|svg)\b/gi, ([, tag]) => `</${tag}>`));
+}
+
+export function parseHtml(source) {
+  const html = stripNonContentHtml(source);
+
+  const headings = findElements(html, /<h([1-6])\b[^>]*>/gi, ([, level]) => `</h${level}>`)
+    .map(({ match: [, level], inner }) => ({ level: Number(level), text: stripTags(inner) }))
+    .filter(heading => heading.text.length > 0);
+
+  const images = [...taggedPart(html).matchAll(/<img\b[^>]*>/gi)]
+    .map(([tag]) => ({ src: getAttribute(tag, 'src') || '', alt: getAttribute(tag, 'alt') }));
+
+  const links = findElements(html, /<a\b([^>]*)>/gi, () => '</a>')
+    .map(({ match: [, attributes], inner }) => ({ href: getAttribute(` ${attributes}`, 'href'), text: stripTags(inner) }))
+    .filter(link => link.href !== null);
+
+  const lists = findElements(html, /<(ul|ol)\b[^>]*>/gi, ([, tag]) => `</${tag}>`)
+    .map(({ match: [, tag], inner }) => ({ ordered: tag.toLowerCase() === 'ol', items: (inner.match(/<li\b/gi) || []).length }));
+
+  const blocksBroken = replaceTags(html, new RegExp(`<\\/?(?:${HTML_BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n');
+  const text = collapseParagraphs(decodeEntities(replaceTags(blocksBroken, /<[^>]*>/g, '')));
+
+  return { format: 'html', text, headings, images, links, lists };
+}
+
+export function parseMarkdown(source) {
+  const headings = [];
+  const images = [];
+  const links = [];
+  const lists = [];
+  const lines = [];
+
+  let inCodeFence = false;
+  let currentList = null;
+  const sourceLines = source.split(/\r?\n/);
+
+  // Found once per run of blank lines rather than once per blank line
+  let nextNonBlank = 0;
+  const nextLineAfter = index => {
+    nextNonBlank = Math.max(nextNonBlank, index + 1);
+    while (nextNonBlank < sourceLines.length && sourceLines[nextNonBlank].trim() === '') nextNonBlank++;
+    return sourceLines[nextNonBlank];
+  };
+
+  sourceLines.forEach((rawLine, index) => {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCodeFence = !inCodeFence;
+      return;
+    }
+    if (inCodeFence) return;
+
+    let line = rawLine;
+
+    // Setext headings: a line underlined by === (h1) or --- (h2)
+    const underline = sourceLines[index + 1];
+    if (line.trim() && underline !== undefined && /^\s*(=+|-+)\s*$/.test(underline) && !/^\s*([-*+]|\d+[.)])\s/.test(line)) {
+      headings.push({ level: underline.trim()[0] === '=' ? 1 : 2, text: line.trim() });
+      lines.push('', line.trim(), '');
+      return;
+    }
+    if (/^\s*(=+|-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      lines.push('');
+      return;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const text = stripInlineMarkdown(heading[2], { images, links });
+      headings.push({ level: heading[1].length, text });
+      lines.push('', text, '');
+      currentList = null;
+      return;
+    }
+
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      if (!currentList || currentList.ordered !== ordered) {
+        currentList = { ordered, items: 0 };
+        lists.push(currentList);
+      }
+      currentList.items += 1;
+      line = listItem[2];
+    } else if (line.trim() === '') {
+      // A blank line only ends a list if the next non-blank line isn't another item
+      const nextLine = nextLineAfter(index);
+      if (!nextLine || !/^\s*([-*+]|\d+[.)])\s+/.test(nextLine)) currentList = null;
+    } else if (!/^\s{2,}/.test(line)) {
+      currentList = null;
+    }
+
+    lines.push(stripInlineMarkdown(line.replace(/^\s*>\s?/, ''), { images, links }));
+  });
+
+  return { format: 'markdown', text: collapseParagraphs(lines.join('\n')), headings, images, links, lists };
+}
+
+const EMPHASIS_MARKERS = ['**', '__', '*', '_', '~~', '`'];
+
+// Drop emphasis and code markers around text, as /(\*\*|__|\*|_|~~|`)(\S(?:.*?\S)?)\1/g would, but in
+// one pass: the closing positions of each marker are listed up front, so an unclosed marker doesn't
+// send every later one searching to the end of the line
+function stripEmphasis(line) {
+  const closers = new Map(EMPHASIS_MARKERS.map(marker => [marker, []]));
+  for (let index = 1; index < line.length; index++) {
+    if (/\S/.test(line[index - 1])) EMPHASIS_MARKERS.forEach(marker => line.startsWith(marker, index) && closers.get(marker).push(index));
+  }
+
+  // Like the regex, prefer the first closer leaving two or more characters inside, and only
+  // then one right after a single character
+  const nextCloser = new Map(EMPHASIS_MARKERS.map(marker => [marker, 0]));
+  const findCloser = (marker, index) => {
+    const content = index + marker.length;
+    if (!line.startsWith(marker, index) || !/\S/.test(line[content] ?? '')) return -1;
+    const positions = closers.get(marker);
+    let next = nextCloser.get(marker);
+    while (next < positions.length && positions[next] < content + 2) next++;
+    nextCloser.set(marker, next);
+    if (next < positions.length) return positions[next];
+    return line.startsWith(marker, content + 1) ? content + 1 : -1;
+  };
+
+  let text = '';
+  let index = 0;
+  while (index < line.length) {
+    const marker = EMPHASIS_MARKERS.find(candidate => findCloser(candidate, index) !== -1);
+    if (marker) {
+      const closer = findCloser(marker, index);
+      text += line.slice(index + marker.length, closer);
+      index = closer + marker.length;
+    } else {
+      text += line[index++];
+    }
+  }
+  return text;
+}
+
+// Replace inline markdown with its readable text, recording images and links as they're found.
+// Link text can't contain '[', destinations can't contain '(' and URLs can't contain '<', so an
+// unclosed bracket stops at the next one instead of running on to the end of the line.
+function stripInlineMarkdown(line, { images, links }) {
+  const withoutLinks = line
+    .replace(/!\[([^[\]]*)\]\(\s*<?([^()\s>]*)>?(?:\s+["'(][^()]*["')])?\s*\)/g, (match, alt, src) => {
+      images.push({ src, alt });
+      return alt;
+    })
+    .replace(/\[([^[\]]+)\]\(\s*<?([^()\s>]*)>?(?:\s+["'(][^()]*["')])?\s*\)/g, (match, text, href) => {
+      links.push({ href, text });
+      return text;
+    })
+    .replace(/<(https?:\/\/[^<>\s]+)>/g, (match, href) => {
+      links.push({ href, text: href });
+      return href;
+    });
+  return stripEmphasis(replaceTags(withoutLinks, /<[^>]+>/g, ''));
+}
+
+// Plain text has no markup: headings are guessed from layout and links are bare URLs
+export function parsePlainText(source) {
+  const headings = extractHeadings(source).map(text => ({ level: 2, text }));
+  const links = (source.match(/https?:\/\/[^\s<>"')]+/g) || []).map(href => ({ href, text: href }));
+
+  const lists = [];
+  let currentList = null;
+  source.split(/\r?\n/).forEach(line => {
+    const listItem = line.match(/^\s*([-*•]|\d+[.)])\s+\S/);
+    if (!listItem) {
+      if (line.trim() !== '') currentList = null;
+      return;
+    }
+    const ordered = /\d/.test(listItem[1]);
+    if (!currentList || currentList.ordered !== ordered) {
+      currentList = { ordered, items: 0 };
+      lists.push(currentList);
+    }
+    currentList.items += 1;
+  });
+
+  return { format: 'text', text: source, headings, images: [], links, lists };
+}
+
+export function parseDocument(source, format = 'text') {
+  if (format === 'markdown') return parseMarkdown(source);
+  if (format === 'html') return parseHtml(source);
+  return parsePlainText(source);
+}
+
+// Relative URLs and anchors stay on the site; absolute http(s) URLs leave it
+// unless they point at the same host as baseUrl
+function isInternalLink(href, baseUrl) {
+  if (/^(mailto|tel|javascript):/i.test(href)) return null;
+  if (!/^([a-z][a-z0-9+.-]*:)?\/\//i.test(href)) return true;
+  if (!baseUrl) return false;
+  try {
+    return new URL(href, baseUrl).host === new URL(baseUrl).host;
+  } catch {
+    return false;
+  }
+}
+
+// Structural metrics and suggestions for a parsed document
+export function analyzeStructure(document, { wordCount, baseUrl } = {}) {
+  const { format, headings, images, links, lists } = document;
+  const h1Count = headings.filter(heading => heading.level === 1).length;
+
+  // A heading that skips levels on the way down (h2 followed by h4)
+  const hierarchyGaps = [];
+  headings.forEach((heading, index) => {
+    const previousLevel = index === 0 ? (format === 'text' ? heading.level : 1) : headings[index - 1].level;
+    if (heading.level > previousLevel + 1) {
+      hierarchyGaps.push({ heading: heading.text, from: previousLevel, to: heading.level });
+    }
+  });
+
+  const imagesMissingAlt = images.filter(image => image.alt === null || image.alt.trim() === '');
+  const classifiedLinks = links.map(link => isInternalLink(link.href, baseUrl));
+  const internalLinks = classifiedLinks.filter(internal => internal === true).length;
+  const externalLinks = classifiedLinks.filter(internal => internal === false).length;
+
+  const metrics = {
+    format,
+    headings,
+    h1Count,
+    hierarchyGaps,
+    imageCount: images.length,
+    imagesMissingAlt: imagesMissingAlt.map(image => image.src),
+    internalLinks,
+    externalLinks,
+    listCount: lists.length,
+    listItemCount: lists.reduce((sum, list) => sum + list.items, 0)
+  };
+
+  const suggestions = [];
+  const markedUp = format !== 'text';
+
+  if (markedUp && h1Count === 0) {
+    suggestions.push({ type: 'structure', message: 'The document has no H1 heading. Add one title that describes the page topic.', priority: 'high' });
+  } else if (h1Count > 1) {
+    suggestions.push({ type: 'structure', message: `The document has ${h1Count} H1 headings. Use a single H1 and H2-H6 for sections.`, priority: 'medium' });
+  }
+  if (hierarchyGaps.length > 0) {
+    const gap = hierarchyGaps[0];
+    suggestions.push({
+      type: 'structure',
+      message: `Heading levels skip from H${gap.from} to H${gap.to} at "${gap.heading}"${hierarchyGaps.length > 1 ? ` (and ${hierarchyGaps.length - 1} more)` : ''}. Don't skip levels when nesting sections.`,
+      priority: 'medium'
+    });
+  }
+  if (imagesMissingAlt.length > 0) {
+    suggestions.push({
+      type: 'structure',
+      message: `${imagesMissingAlt.length} of ${images.length} images have no alt text. Describe each image for accessibility and image search.`,
+      priority: 'high'
+    });
+  }
+  if (markedUp && internalLinks === 0) {
+    suggestions.push({ type: 'structure', message: 'No internal links found. Link to related pages on your site to help crawlers and readers.', priority: 'medium' });
+  }
+  if (wordCount > 300 && headings.length === 0) {
+    suggestions.push({ type: 'structure', message: 'Long content without headings is hard to scan. Break it into sections with subheadings.', priority: 'medium' });
+  }
+  if (wordCount > 600 && lists.length === 0) {
+    suggestions.push({ type: 'structure', message: 'Consider a bulleted or numbered list to summarize steps or key points.', priority: 'low' });
+  }
+
+  return { metrics, suggestions };
+}
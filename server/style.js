@@ -0,0 +1,111 @@
+import { sentenceSpans } from './text.js';
+
+// Content guidelines: under 10% of sentences in the passive voice, over 30% with a transition
+export const MAX_PASSIVE_PERCENT = 10;
+export const MIN_TRANSITION_PERCENT = 30;
+
+// Past participles that don't end in -ed
+const IRREGULAR_PARTICIPLES = [
+  'arisen', 'awoken', 'beaten', 'become', 'begun', 'bent', 'bet', 'bitten', 'bled', 'blown', 'bought',
+  'bound', 'bred', 'broken', 'brought', 'built', 'burnt', 'burst', 'cast', 'caught', 'chosen', 'clung',
+  'come', 'cost', 'crept', 'cut', 'dealt', 'dug', 'done', 'drawn', 'dreamt', 'driven', 'drunk', 'eaten',
+  'fallen', 'fed', 'felt', 'fought', 'found', 'fled', 'flung', 'flown', 'forbidden', 'forecast',
+  'foreseen', 'forgiven', 'forgotten', 'frozen', 'given', 'gone', 'ground', 'grown', 'hung', 'heard',
+  'hidden', 'hit', 'held', 'hurt', 'kept', 'knelt', 'known', 'laid', 'led', 'leant', 'learnt', 'left',
+  'lent', 'let', 'lain', 'lit', 'lost', 'made', 'meant', 'met', 'mistaken', 'misunderstood', 'overcome',
+  'overdone', 'overlooked', 'overseen', 'overtaken', 'overthrown', 'paid', 'proven', 'put', 'quit',
+  'read', 'rebuilt', 'rewritten', 'rid', 'ridden', 'rung', 'risen', 'run', 'said', 'seen', 'sought',
+  'sold', 'sent', 'set', 'sewn', 'shaken', 'shed', 'shot', 'shown', 'shrunk', 'shut', 'sung', 'sunk',
+  'slain', 'slid', 'slung', 'sown', 'spoken', 'sped', 'spent', 'spilt', 'spun', 'split', 'spread',
+  'sprung', 'stood', 'stolen', 'stuck', 'stung', 'struck', 'strung', 'sworn', 'swept', 'swollen', 'swum',
+  'swung', 'taken', 'taught', 'torn', 'told', 'thought', 'thrown', 'thrust', 'trodden', 'undergone',
+  'understood', 'undertaken', 'undone', 'upheld', 'upset', 'woken', 'worn', 'woven', 'wed', 'wept',
+  'won', 'wound', 'withdrawn', 'withheld', 'written', 'wrung'
+];
+
+// Words ending in -ed that aren't past participles
+const NOT_PARTICIPLES = new Set([
+  'bed', 'bred', 'embed', 'exceed', 'feed', 'greed', 'hundred', 'indeed', 'kindred', 'naked', 'need',
+  'proceed', 'red', 'sacred', 'seed', 'shed', 'speed', 'succeed', 'wicked', 'weed'
+]);
+
+const BE_VERBS = 'am|is|are|was|were|be|been|being';
+
+// A form of "to be", optionally followed by "not" or adverbs, then a past participle
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:${BE_VERBS})(?:\\s+(?:not|never|\\w+ly))*\\s+(\\w+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'gi'
+);
+
+// Words and phrases that link a sentence to the one before it
+const TRANSITION_WORDS = [
+  'above all', 'accordingly', 'additionally', 'after all', 'afterward', 'afterwards', 'also',
+  'although', 'as a result', 'as long as', 'as soon as', 'as well as', 'because', 'besides',
+  'by contrast', 'consequently', 'conversely', 'equally important', 'especially', 'even so',
+  'even though', 'eventually', 'finally', 'first', 'firstly', 'for example', 'for instance',
+  'for this reason', 'furthermore', 'hence', 'however', 'in addition', 'in conclusion', 'in contrast',
+  'in fact', 'in other words', 'in particular', 'in short', 'in summary', 'indeed', 'instead',
+  'last', 'lastly', 'likewise', 'meanwhile', 'moreover', 'namely', 'nevertheless', 'next',
+  'nonetheless', 'notably', 'of course', 'on the contrary', 'on the other hand', 'otherwise',
+  'overall', 'particularly', 'second', 'secondly', 'similarly', 'since', 'so that', 'specifically',
+  'still', 'subsequently', 'then', 'therefore', 'third', 'thirdly', 'thus', 'to summarize',
+  'ultimately', 'unless', 'whereas', 'while'
+];
+
+const TRANSITION_PATTERN = new RegExp(
+  `\\b(?:${[...TRANSITION_WORDS].sort((a, b) => b.length - a.length).join('|').replace(/ /g, '\\s+')})\\b`,
+  'i'
+);
+
+// Passive constructions with their character ranges in the text
+export function findPassiveVoice(text) {
+  return [...text.matchAll(PASSIVE_PATTERN)]
+    .filter(match => !NOT_PARTICIPLES.has(match[1].toLowerCase()))
+    .map(match => ({ start: match.index, end: match.index + match[0].length, text: match[0] }));
+}
+
+export function hasTransition(sentence) {
+  return TRANSITION_PATTERN.test(sentence);
+}
+
+const round1 = value => Math.round(value * 10) / 10;
+
+// Share of sentences written in the passive voice and of sentences using a transition word.
+// Headings aren't sentences, so lines without closing punctuation only count when they're long.
+export function analyzeStyle(text) {
+  const sentences = sentenceSpans(text)
+    .filter(sentence => /[.!?]["'”’)\]]*$/.test(sentence.text) || sentence.text.split(/\s+/).length > 10);
+
+  const passiveRanges = findPassiveVoice(text);
+  const passiveSentences = sentences.filter(sentence =>
+    passiveRanges.some(range => range.start >= sentence.start && range.start < sentence.end)
+  ).length;
+  const transitionSentences = sentences.filter(sentence => hasTransition(sentence.text)).length;
+
+  const percentOf = count => (sentences.length > 0 ? round1((count / sentences.length) * 100) : 0);
+  const report = {
+    sentenceCount: sentences.length,
+    passiveSentences,
+    passivePercent: percentOf(passiveSentences),
+    transitionSentences,
+    transitionPercent: percentOf(transitionSentences)
+  };
+
+  const suggestions = [];
+  if (report.passivePercent >= MAX_PASSIVE_PERCENT) {
+    suggestions.push({
+      type: 'style',
+      message: `${report.passivePercent}% of sentences use the passive voice. Keep it under ${MAX_PASSIVE_PERCENT}% by saying who performs each action.`,
+      priority: report.passivePercent >= MAX_PASSIVE_PERCENT * 2 ? 'high' : 'medium'
+    });
+  }
+  if (sentences.length > 1 && report.transitionPercent <= MIN_TRANSITION_PERCENT) {
+    suggestions.push({
+      type: 'style',
+      message: `Only ${report.transitionPercent}% of sentences contain a transition word. Aim for more than ${MIN_TRANSITION_PERCENT}% ("however", "for example", "as a result") to connect your ideas.`,
+      priority: 'medium'
+    });
+  }
+
+  return { report, suggestions };
+}
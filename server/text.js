@@ -0,0 +1,130 @@
+// Function words that never make useful keywords on their own
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are',
+  'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'even', 'every', 'few',
+  'for', 'from', 'further', 'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'hers', 'herself', 'him', 'himself', 'his', 'how', 'however', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'itself', 'just', 'let', 'like', 'lets', 'many', 'may', 'me', 'might', 'more', 'most',
+  'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'often', 'on', 'once',
+  'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'per', 'rather',
+  'same', 'shall', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs',
+  'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'upon', 'us', 'use', 'used', 'uses', 'using', 'very', 'was', 'we', 'well',
+  'were', 'what', 'when', 'where', 'whether', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'within', 'without', 'would', 'yet', 'you', 'your', 'yours', 'yourself', 'yourselves'
+]);
+
+// Words that can sit inside a keyphrase but make a poor first or last word
+const WEAK_EDGE_WORDS = new Set([
+  'add', 'adds', 'build', 'builds', 'first', 'finally', 'help', 'helps', 'keep', 'keeps', 'make',
+  'makes', 'made', 'new', 'next', 'run', 'runs', 'second', 'start', 'starts', 'take', 'takes',
+  'third', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'fifteen',
+  'twenty', 'thirty', 'minutes', 'hours', 'days', 'weeks', 'times', 'way', 'ways', 'thing', 'things'
+]);
+
+// Lowercase word tokens in any script, keeping inner apostrophes and hyphens ("don't",
+// "long-tail"). Combining marks are part of the word, which Devanagari vowel signs rely on.
+export function tokenize(text) {
+  return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu) || [];
+}
+
+export function isContentWord(token, stopwords = STOPWORDS) {
+  return token.length > 2 && !stopwords.has(token) && !/^\d+$/.test(token);
+}
+
+// Sentence-ending punctuation, including the Devanagari danda
+export const SENTENCE_END = /[.!?।]+/;
+
+export function splitSentences(text) {
+  return text.split(SENTENCE_END).filter(s => s.trim().length > 0);
+}
+
+// Sentences with their character range and paragraph. A sentence ends at terminal punctuation
+// followed by whitespace, or at the end of its line.
+export function sentenceSpans(text) {
+  const spans = [];
+  let paragraphIndex = 0;
+  let previousBlank = false;
+  let lineStart = 0;
+
+  text.split('\n').forEach(line => {
+    const start = lineStart;
+    lineStart += line.length + 1;
+    if (line.trim() === '') {
+      previousBlank = true;
+      return;
+    }
+    if (previousBlank && spans.length > 0) paragraphIndex++;
+    previousBlank = false;
+
+    for (const match of line.matchAll(/\S.*?(?:[.!?।]+["'”’)\]]*(?=\s|$)|$)/g)) {
+      const text = match[0].trimEnd();
+      spans.push({ start: start + match.index, end: start + match.index + text.length, text, paragraphIndex });
+    }
+  });
+  return spans;
+}
+
+export function splitParagraphs(text) {
+  return text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+}
+
+// Runs of consecutive content words, broken at stopwords and punctuation.
+// These are the only spans a keyphrase may come from.
+export function contentChunks(text, stopwords = STOPWORDS) {
+  const chunks = [];
+  text.split(/[.!?।,;:()[\]{}"\n]+/).forEach(fragment => {
+    let current = [];
+    tokenize(fragment).forEach(token => {
+      if (isContentWord(token, stopwords)) {
+        current.push(token);
+      } else if (current.length > 0) {
+        chunks.push(current);
+        current = [];
+      }
+    });
+    if (current.length > 0) chunks.push(current);
+  });
+  return chunks;
+}
+
+// Count every n-gram of minWords..maxWords words that fits inside a content chunk
+export function countNgrams(text, { minWords = 1, maxWords = 3, stopwords = STOPWORDS } = {}) {
+  const counts = new Map();
+  contentChunks(text, stopwords).forEach(chunk => {
+    for (let size = minWords; size <= maxWords; size++) {
+      for (let start = 0; start + size <= chunk.length; start++) {
+        const gram = chunk.slice(start, start + size).join(' ');
+        counts.set(gram, (counts.get(gram) || 0) + 1);
+      }
+    }
+  });
+  return counts;
+}
+
+// Counts, time spans, generic verbs and adverbs: fine inside a phrase, weak on their own
+export const isWeakWord = term => WEAK_EDGE_WORDS.has(term) || /ly$/.test(term);
+
+// Whether a multi-word n-gram reads like a keyphrase rather than a fragment of a clause
+export function isPhraseCandidate(gram) {
+  const terms = gram.split(' ');
+  if (terms.length < 2) return false;
+  const edges = [terms[0], terms[terms.length - 1]];
+  return edges.every(term => !isWeakWord(term));
+}
+
+// Heading-like lines in plain text: markdown "#" lines, or short standalone lines
+// without closing punctuation ("Getting Started", "Why It Matters")
+export function extractHeadings(text) {
+  return text
+    .split('\n')
+    .map((line, index, lines) => ({ line: line.trim(), prev: lines[index - 1], next: lines[index + 1] }))
+    .filter(({ line, prev, next }) => {
+      if (/^#{1,6}\s+\S/.test(line)) return true;
+      const standalone = (prev === undefined || prev.trim() === '') && (next === undefined || next.trim() === '');
+      return standalone && line.length > 0 && line.length <= 70 && !/[.!?,;:]$/.test(line) &&
+        line.split(/\s+/).length <= 10;
+    })
+    .map(({ line }) => line.replace(/^#{1,6}\s+/, ''));
+}
@@ -0,0 +1,428 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { STOPWORDS, countNgrams, isContentWord, isPhraseCandidate, isWeakWord, splitParagraphs, splitSentences, tokenize } from './text.js';
+import { findPhraseMatches, matchTokens } from './phraseMatcher.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CORPUS_FILE = path.join(__dirname, 'data', 'background-corpus.txt');
+
+// Latent dimensions kept from the decomposition
+const DIMENSIONS = 24;
+
+// Terms found in more than this share of corpus paragraphs are too general to name a subtopic
+const MAX_PARAGRAPH_SHARE = 0.1;
+
+// Average similarity for two groups of terms to merge into one subtopic
+const CLUSTER_SIMILARITY = 0.25;
+
+// Share of draft term similarity that comes from the corpus subject rather than shared sentences
+const SUBJECT_WEIGHT = 0.3;
+
+// How close a corpus term or entity must be to the topic to be expected in the draft
+const MIN_RELATED_SIMILARITY = 0.3;
+
+const RELATED_TERM_LIMIT = 24;
+const EXPECTED_SUBTOPIC_LIMIT = 6;
+const DRAFT_SUBTOPIC_LIMIT = 8;
+const DRAFT_TERM_LIMIT = 30;
+const ENTITY_LIMIT = 8;
+const QUESTION_LIMIT = 5;
+
+// A subtopic counts as covered once the draft uses half of its terms
+const COVERED_SHARE = 0.5;
+
+// Stems of a text's content words, with the spelling each came from
+function contentTerms(text) {
+  const terms = [];
+  tokenize(text).forEach(token => {
+    if (!isContentWord(token) || isWeakWord(token)) return;
+    matchTokens(token).forEach(stem => {
+      if (stem.length > 2 && !STOPWORDS.has(stem)) terms.push({ stem, token });
+    });
+  });
+  return terms;
+}
+
+const dot = (a, b) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+const norm = vector => Math.sqrt(dot(vector, vector));
+
+function normalize(vector) {
+  const length = norm(vector);
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+function addInto(target, vector, weight = 1) {
+  vector.forEach((value, index) => {
+    target[index] += value * weight;
+  });
+  return target;
+}
+
+const cosine = (a, b) => {
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot(a, b) / denominator : 0;
+};
+
+// Share of sentences two terms have in common (cosine over their sentence sets)
+const sentenceOverlap = (a, b) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(sentence => {
+    if (b.has(sentence)) shared += 1;
+  });
+  return shared / Math.sqrt(a.size * b.size);
+};
+
+// Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations.
+// Returns eigenvalues and matching eigenvectors (as columns), largest first.
+function symmetricEigen(input) {
+  const n = input.length;
+  const a = input.map(row => [...row]);
+  const v = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-18) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-12) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return a
+    .map((row, index) => ({ value: row[index], vector: v.map(vectorRow => vectorRow[index]) }))
+    .sort((x, y) => y.value - x.value);
+}
+
+// Proper nouns and acronyms from the corpus ("Kubernetes", "Google Cloud", "ETFs"). Names
+// at the start of a sentence only count when they're acronyms or also capitalized mid-sentence.
+function findEntities(sentences, corpusText) {
+  const lowercaseWords = new Set(corpusText.match(/\b[a-z][a-z'-]*\b/g));
+  const isAcronym = name => (name.match(/[A-Z]/g) || []).length >= 2;
+  const found = new Map();
+  const openers = [];
+
+  sentences.forEach(({ text, paragraph }) => {
+    for (const match of text.matchAll(/[A-Z][\w+.'-]*(?:\s+[A-Z][\w+.'-]*)*/g)) {
+      let words = match[0].replace(/[.'-]+$/, '').split(/\s+/);
+      const atStart = text.slice(0, match.index).trim() === '';
+      if (atStart) {
+        while (words.length > 0 && lowercaseWords.has(words[0].toLowerCase())) words = words.slice(1);
+      }
+      const name = words.join(' ');
+      if (name.replace(/\W/g, '').length < 2) continue;
+      if (atStart && !isAcronym(name)) {
+        openers.push({ name, paragraph });
+        continue;
+      }
+      const entity = found.get(name) || { name, paragraphs: new Set() };
+      entity.paragraphs.add(paragraph);
+      found.set(name, entity);
+    }
+  });
+
+  openers.forEach(({ name, paragraph }) => found.get(name)?.paragraphs.add(paragraph));
+  return [...found.values()];
+}
+
+// Latent semantic analysis over the background corpus. Each paragraph covers one subject, so
+// the decomposition of the paragraph-by-term matrix places terms by the subjects they belong
+// to. It runs on the small paragraph-by-paragraph matrix A·Aᵀ; term coordinates are then
+// Aᵀ·U (= V·Σ). Which sentences a term appears in is kept to split a subject into subtopics.
+function buildModel(filePath) {
+  const corpusText = fs.readFileSync(filePath, 'utf8');
+  const sentences = splitParagraphs(corpusText).flatMap((paragraph, index) =>
+    splitSentences(paragraph).map(sentence => ({ text: sentence.trim(), paragraph: index }))
+  );
+  const paragraphCount = sentences.length > 0 ? sentences[sentences.length - 1].paragraph + 1 : 0;
+
+  const spellings = new Map();
+  const termSentences = new Map();
+  const paragraphTerms = Array.from({ length: paragraphCount }, () => new Map());
+  sentences.forEach(({ text, paragraph }, index) => {
+    contentTerms(text).forEach(({ stem, token }) => {
+      const counts = paragraphTerms[paragraph];
+      counts.set(stem, (counts.get(stem) || 0) + 1);
+      const forms = spellings.get(stem) || {};
+      forms[token] = (forms[token] || 0) + 1;
+      spellings.set(stem, forms);
+      const inSentences = termSentences.get(stem) || new Set();
+      inSentences.add(index);
+      termSentences.set(stem, inSentences);
+    });
+  });
+
+  const vocabulary = [...termSentences.keys()];
+  const termIndex = new Map(vocabulary.map((stem, index) => [stem, index]));
+  const paragraphFrequency = new Map();
+  paragraphTerms.forEach(counts => counts.forEach((_, stem) => paragraphFrequency.set(stem, (paragraphFrequency.get(stem) || 0) + 1)));
+  const idf = new Map([...paragraphFrequency].map(([stem, count]) => [stem, Math.log(paragraphCount / count) + 1]));
+
+  // Rows of A: log-scaled TF-IDF weights, unit length
+  const rows = paragraphTerms.map(counts => {
+    const entries = [...counts].map(([stem, count]) => [termIndex.get(stem), (1 + Math.log(count)) * idf.get(stem)]);
+    const length = Math.sqrt(entries.reduce((sum, [, weight]) => sum + weight * weight, 0));
+    return entries.map(([index, weight]) => [index, length > 0 ? weight / length : 0]);
+  });
+
+  const gram = rows.map(row => {
+    const dense = new Map(row);
+    return rows.map(other => other.reduce((sum, [index, weight]) => sum + weight * (dense.get(index) || 0), 0));
+  });
+  const components = symmetricEigen(gram).filter(({ value }) => value > 1e-9).slice(0, DIMENSIONS);
+
+  const termVectors = vocabulary.map(() => new Array(components.length).fill(0));
+  rows.forEach((row, paragraph) => {
+    row.forEach(([index, weight]) => {
+      components.forEach(({ vector }, dimension) => {
+        termVectors[index][dimension] += weight * vector[paragraph];
+      });
+    });
+  });
+
+  // Paragraph coordinates U·Σ place entities by the paragraphs that mention them
+  const paragraphVectors = rows.map((_, paragraph) => components.map(({ value, vector }) => vector[paragraph] * Math.sqrt(value)));
+  const entities = findEntities(sentences, corpusText).map(entity => ({
+    name: entity.name,
+    vector: [...entity.paragraphs].reduce((sum, paragraph) => addInto(sum, paragraphVectors[paragraph]), new Array(components.length).fill(0))
+  }));
+
+  const phrases = [...countNgrams(corpusText, { minWords: 2, maxWords: 2 })]
+    .filter(([gram]) => isPhraseCandidate(gram))
+    .map(([gram, count]) => ({ phrase: gram, stems: matchTokens(gram), count }));
+
+  return {
+    vocabulary,
+    termIndex,
+    termVectors: termVectors.map(normalize),
+    termSentences,
+    paragraphFrequency,
+    paragraphCount,
+    idf,
+    maxIdf: Math.log(paragraphCount) + 1,
+    spellings,
+    entities,
+    phrases,
+    dimensions: components.length
+  };
+}
+
+const model = buildModel(CORPUS_FILE);
+
+const termVector = stem => (model.termIndex.has(stem) ? model.termVectors[model.termIndex.get(stem)] : null);
+
+// Terms spread across many subjects ("build", "start", "people") say little about any one
+const isGeneral = stem => (model.paragraphFrequency.get(stem) || 0) > model.paragraphCount * MAX_PARAGRAPH_SHARE;
+
+const mostUsed = forms => Object.entries(forms).sort(([, a], [, b]) => b - a)[0][0];
+
+// How alike two terms are: mostly whether they share sentences, nudged by subject (latent
+// vectors) when the corpus knows both
+const termSimilarity = (a, b) => (a.vector && b.vector
+  ? SUBJECT_WEIGHT * cosine(a.vector, b.vector) + (1 - SUBJECT_WEIGHT) * sentenceOverlap(a.sentences, b.sentences)
+  : sentenceOverlap(a.sentences, b.sentences));
+
+// Average-linkage agglomerative clustering, merging the closest pair of groups while their
+// average pairwise similarity is at least CLUSTER_SIMILARITY. Terms related to one topic all
+// share its subject, so those are split by sentences alone.
+function clusterTerms(items, { bySentence = false } = {}) {
+  const similarity = items.map(a => items.map(b => (bySentence ? sentenceOverlap(a.sentences, b.sentences) : termSimilarity(a, b))));
+  let clusters = items.map((_, index) => [index]);
+
+  const linkage = (a, b) => a.reduce((sum, i) => sum + b.reduce((inner, j) => inner + similarity[i][j], 0), 0) / (a.length * b.length);
+
+  for (;;) {
+    let best = null;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const score = linkage(clusters[i], clusters[j]);
+        if (score >= CLUSTER_SIMILARITY && (!best || score > best.score)) best = { i, j, score };
+      }
+    }
+    if (!best) return clusters.map(cluster => cluster.map(index => items[index]));
+
+    const merged = [...clusters[best.i], ...clusters[best.j]];
+    clusters = clusters.filter((_, index) => index !== best.i && index !== best.j);
+    clusters.push(merged);
+  }
+}
+
+// A readable name for a group of terms: the most common corpus phrase made of its terms,
+// otherwise its strongest term that isn't a general word
+function labelFor(stems, spellingOf) {
+  const rank = candidate => candidate.stems.reduce((sum, stem) => sum + stems.indexOf(stem), 0);
+  const phrase = model.phrases
+    .filter(candidate => candidate.stems.every(stem => stems.includes(stem)))
+    .sort((a, b) => b.count - a.count || rank(a) - rank(b))[0];
+  return phrase ? phrase.phrase : spellingOf(stems.find(stem => !isGeneral(stem)) || stems[0]);
+}
+
+// Group the draft's most distinctive terms into subtopics by their corpus vectors and the
+// draft sentences they share, so terms the corpus doesn't know still join the words around them
+function draftSubtopics(sentences, counts, spellings) {
+  const weight = stem => counts.get(stem) * (model.idf.get(stem) || model.maxIdf);
+  const items = [...counts.keys()]
+    // One-off words the corpus can't place, or that belong to every subject, are noise
+    .filter(stem => counts.get(stem) >= 2 || (termVector(stem) && !isGeneral(stem)))
+    .sort((a, b) => weight(b) - weight(a))
+    .slice(0, DRAFT_TERM_LIMIT)
+    .map(stem => ({
+      stem,
+      vector: termVector(stem),
+      sentences: new Set(sentences.flatMap((terms, index) => (terms.some(term => term.stem === stem) ? [index] : [])))
+    }));
+
+  const total = items.reduce((sum, item) => sum + counts.get(item.stem), 0);
+  const spellingOf = stem => mostUsed(spellings.get(stem));
+
+  return clusterTerms(items)
+    .map(cluster => {
+      const stems = cluster.map(item => item.stem).sort((a, b) => weight(b) - weight(a));
+      const occurrences = stems.reduce((sum, stem) => sum + counts.get(stem), 0);
+      return {
+        label: labelFor(stems, spellingOf),
+        terms: stems.map(spellingOf),
+        share: total > 0 ? Math.round((occurrences / total) * 100) : 0,
+        vector: stems.reduce((sum, stem) => (termVector(stem) ? addInto(sum, termVector(stem), weight(stem)) : sum), new Array(model.dimensions).fill(0))
+      };
+    })
+    .sort((a, b) => b.share - a.share)
+    .slice(0, DRAFT_SUBTOPIC_LIMIT);
+}
+
+// Semantic coverage of a draft: the subtopics it talks about, the subtopics the corpus
+// associates with its focus keyword (or, without one, with the draft as a whole) and how many
+// of those it covers, plus related entities it never mentions and questions worth answering.
+// The model is built from the English background corpus, so other languages get null.
+export function analyzeTopics(text, { focusKeyword, language = 'en' } = {}) {
+  if (language !== 'en') return null;
+
+  const sentences = splitSentences(text).map(contentTerms).filter(terms => terms.length > 0);
+  const counts = new Map();
+  const spellings = new Map();
+  sentences.flat().forEach(({ stem, token }) => {
+    counts.set(stem, (counts.get(stem) || 0) + 1);
+    const forms = spellings.get(stem) || {};
+    forms[token] = (forms[token] || 0) + 1;
+    spellings.set(stem, forms);
+  });
+  if (counts.size === 0) return null;
+
+  const subtopics = draftSubtopics(sentences, counts, spellings);
+
+  // The topic the draft should cover: the focus keyword's terms when the corpus knows them
+  const focusStems = focusKeyword ? matchTokens(focusKeyword).filter(stem => termVector(stem)) : [];
+  const basis = focusStems.length > 0 ? 'focus-keyword' : 'draft';
+  const query = basis === 'focus-keyword'
+    ? focusStems.reduce((sum, stem) => addInto(sum, termVector(stem)), new Array(model.dimensions).fill(0))
+    : subtopics.reduce((sum, subtopic) => addInto(sum, subtopic.vector), new Array(model.dimensions).fill(0));
+
+  const related = model.vocabulary
+    .map((stem, index) => ({
+      stem,
+      vector: model.termVectors[index],
+      sentences: model.termSentences.get(stem),
+      similarity: cosine(query, model.termVectors[index])
+    }))
+    .filter(term => term.similarity >= MIN_RELATED_SIMILARITY && !focusStems.includes(term.stem) && !isGeneral(term.stem))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, RELATED_TERM_LIMIT);
+
+  const corpusSpelling = stem => mostUsed(model.spellings.get(stem));
+  const expected = clusterTerms(related, { bySentence: true })
+    .map(cluster => {
+      // Lead with the terms most tied to the rest of the subtopic, so the label is its core
+      const centrality = member => cluster.reduce((sum, other) => sum + (other === member ? 0 : sentenceOverlap(member.sentences, other.sentences)), 0);
+      const members = [...cluster].sort((a, b) => centrality(b) + b.similarity - centrality(a) - a.similarity);
+      const stems = members.map(member => member.stem);
+      const covered = stems.filter(stem => counts.has(stem));
+      const share = covered.length / stems.length;
+      return {
+        label: labelFor(stems, corpusSpelling),
+        terms: stems.map(corpusSpelling),
+        coveredTerms: covered.map(corpusSpelling),
+        relevance: Math.round(Math.max(...members.map(member => member.similarity)) * 100),
+        status: share >= COVERED_SHARE ? 'covered' : share > 0 ? 'partial' : 'missing'
+      };
+    })
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, EXPECTED_SUBTOPIC_LIMIT);
+
+  const coverageScore = expected.length > 0
+    ? Math.round((expected.reduce((sum, subtopic) => sum + Math.min(1, subtopic.coveredTerms.length / subtopic.terms.length / COVERED_SHARE), 0) / expected.length) * 100)
+    : null;
+
+  const draftTokens = matchTokens(text);
+  const missingEntities = model.entities
+    .map(entity => ({ name: entity.name, relevance: Math.round(cosine(query, entity.vector) * 100) }))
+    .filter(entity => entity.relevance >= MIN_RELATED_SIMILARITY * 100 && findPhraseMatches(draftTokens, entity.name).length === 0)
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, ENTITY_LIMIT);
+
+  // Questions a reader searching for the topic would expect the uncovered subtopics to answer
+  const topic = focusKeyword?.trim() || subtopics[0]?.label;
+  const questions = expected
+    .filter(subtopic => subtopic.status !== 'covered')
+    .slice(0, QUESTION_LIMIT)
+    .map(({ label }, index) => (index % 2 === 0 && topic && label !== topic
+      ? `How does ${label} relate to ${topic}?`
+      : `What should readers know about ${label}?`));
+
+  const suggestions = [];
+  const uncovered = expected.filter(subtopic => subtopic.status === 'missing');
+  if (uncovered.length > 0) {
+    suggestions.push({
+      type: 'topics',
+      message: `The draft doesn't touch on ${uncovered.map(subtopic => `"${subtopic.label}"`).join(', ')}, which usually come up ${basis === 'focus-keyword' ? `alongside "${focusKeyword.trim()}"` : 'with this topic'}.`,
+      priority: coverageScore !== null && coverageScore < 50 ? 'high' : 'medium'
+    });
+  }
+  if (missingEntities.length > 0) {
+    suggestions.push({
+      type: 'topics',
+      message: `Consider mentioning related names: ${missingEntities.slice(0, 4).map(entity => entity.name).join(', ')}.`,
+      priority: 'low'
+    });
+  }
+
+  return {
+    report: {
+      basis,
+      coverageScore,
+      subtopics: subtopics.map(({ vector, ...subtopic }) => subtopic),
+      expected,
+      missingEntities,
+      questions
+    },
+    suggestions
+  };
+}
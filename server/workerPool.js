@@ -0,0 +1,83 @@
+import { Worker } from 'worker_threads';
+
+// Idle workers are shut down after this long, so the models each one loads don't hold memory
+// between batches
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+
+// A fixed number of worker threads running one task each. run(payload) resolves with what the
+// worker posts back for it; tasks beyond the pool size wait their turn. A task that errors or
+// runs past `timeout` rejects, and a worker that hangs or crashes is replaced.
+//
+// Workers receive { id, payload } and must reply with { id, result } or { id, error }.
+export function createWorkerPool(workerFile, { size = 1, timeout = 60000, idleTimeout = DEFAULT_IDLE_TIMEOUT_MS } = {}) {
+  const idle = [];
+  const waiting = [];
+  let workerCount = 0;
+  let nextTaskId = 1;
+  let idleTimer = null;
+
+  const finish = (worker, outcome) => {
+    const { task } = worker;
+    if (!task) return;
+    worker.task = null;
+    clearTimeout(task.timer);
+    outcome(task);
+  };
+
+  const spawn = () => {
+    workerCount++;
+    const worker = new Worker(workerFile);
+    worker.on('error', error => finish(worker, task => task.reject(error)));
+    worker.on('exit', () => {
+      workerCount--;
+      const index = idle.indexOf(worker);
+      if (index !== -1) idle.splice(index, 1);
+      finish(worker, task => task.reject(new Error('The worker stopped unexpectedly')));
+      dispatch();
+      scheduleShutdown();
+    });
+    worker.on('message', ({ id, result, error }) => {
+      if (worker.task?.id !== id) return;
+      finish(worker, task => (error ? task.reject(new Error(error)) : task.resolve(result)));
+      release(worker);
+    });
+    return worker;
+  };
+
+  const scheduleShutdown = () => {
+    if (waiting.length > 0 || idle.length === 0 || idle.length < workerCount) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => idle.splice(0).forEach(idleWorker => idleWorker.terminate()), idleTimeout);
+  };
+
+  const release = worker => {
+    idle.push(worker);
+    dispatch();
+    scheduleShutdown();
+  };
+
+  const dispatch = () => {
+    while (waiting.length > 0 && (idle.length > 0 || workerCount < size)) {
+      clearTimeout(idleTimer);
+      const worker = idle.pop() || spawn();
+      const task = waiting.shift();
+      worker.task = task;
+      task.timer = setTimeout(() => {
+        finish(worker, () => task.reject(new Error(`Timed out after ${Math.round(timeout / 1000)} seconds`)));
+        worker.terminate();
+      }, timeout);
+      worker.postMessage({ id: task.id, payload: task.payload });
+    }
+  };
+
+  return {
+    size,
+
+    run(payload) {
+      return new Promise((resolve, reject) => {
+        waiting.push({ id: nextTaskId++, payload, resolve, reject });
+        dispatch();
+      });
+    }
+  };
+}
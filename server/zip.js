@@ -0,0 +1,78 @@
+import zlib from 'zlib';
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+// Caps that keep a small archive from expanding into gigabytes
+const DEFAULT_MAX_ENTRIES = 2000;
+const DEFAULT_MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// The end-of-directory record sits in the last 22 bytes plus an optional comment of up to 64 KB
+function findEndOfDirectory(buffer) {
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+// Entries of a ZIP archive (DOCX files are ZIP archives too), read from its central directory.
+// Returns { entries } or { error }; each entry's read() inflates it on demand and returns
+// { data } or { error }. Only stored and deflated entries are supported, which covers
+// everything word processors and common zip tools write.
+export function readZip(buffer, { maxEntries = DEFAULT_MAX_ENTRIES, maxEntryBytes = DEFAULT_MAX_ENTRY_BYTES } = {}) {
+  const end = buffer.length >= 22 ? findEndOfDirectory(buffer) : -1;
+  if (end < 0) return { error: 'Not a ZIP archive' };
+
+  const count = buffer.readUInt16LE(end + 10);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+  if (count > maxEntries) return { error: `The archive has too many files (max ${maxEntries})` };
+
+  const entries = [];
+  let offset = directoryOffset;
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== DIRECTORY_ENTRY) {
+      return { error: 'The archive is damaged' };
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const headerOffset = buffer.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools wrote the DOS code page, which is ASCII-compatible
+    const name = buffer.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      isDirectory: name.endsWith('/'),
+      read() {
+        if (flags & 0x1) return { error: `${name} is encrypted` };
+        if (size > maxEntryBytes) return { error: `${name} is larger than ${Math.round(maxEntryBytes / 1024 / 1024)} MB` };
+        if (headerOffset + 30 > buffer.length || buffer.readUInt32LE(headerOffset) !== LOCAL_HEADER) {
+          return { error: `${name} is damaged` };
+        }
+        const dataStart = headerOffset + 30 + buffer.readUInt16LE(headerOffset + 26) + buffer.readUInt16LE(headerOffset + 28);
+        const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        try {
+          if (method === STORED) return { data: compressed };
+          if (method === DEFLATED) return { data: zlib.inflateRawSync(compressed, { maxOutputLength: maxEntryBytes }) };
+        } catch {
+          return { error: `${name} is damaged or larger than ${Math.round(maxEntryBytes / 1024 / 1024)} MB` };
+        }
+        return { error: `${name} uses an unsupported compression method` };
+      }
+    });
+  }
+
+  return { entries };
+}
@@ -0,0 +1,125 @@
+import { useMemo, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+
+export type AnnotationType =
+  | 'long-sentence'
+  | 'very-long-sentence'
+  | 'passive-voice'
+  | 'adverb'
+  | 'complex-word'
+  | 'repeated-start';
+
+export interface Annotation {
+  type: AnnotationType;
+  start: number;
+  end: number;
+  message: string;
+}
+
+interface AnnotatedTextProps {
+  text: string;
+  ranges: Annotation[];
+}
+
+const annotationStyles: Record<AnnotationType, { label: string; className: string }> = {
+  'very-long-sentence': { label: 'Very hard to read', className: 'bg-red-200/70 dark:bg-red-900/50' },
+  'long-sentence': { label: 'Hard to read', className: 'bg-yellow-200/70 dark:bg-yellow-900/50' },
+  'passive-voice': { label: 'Passive voice', className: 'bg-green-200/80 dark:bg-green-900/60' },
+  'adverb': { label: 'Adverbs', className: 'bg-blue-200/80 dark:bg-blue-900/60' },
+  'complex-word': { label: 'Complex phrases', className: 'bg-purple-200/80 dark:bg-purple-900/60' },
+  'repeated-start': { label: 'Repeated starts', className: 'bg-orange-200/80 dark:bg-orange-900/60' },
+};
+
+const annotationTypes = Object.keys(annotationStyles) as AnnotationType[];
+
+// Hemingway-style view of the text: each problem range is highlighted, with the explanation on hover.
+// Ranges can nest (an adverb inside a long sentence), so the text is cut at every range boundary
+// and each piece takes the colour of the narrowest range covering it.
+export function AnnotatedText({ text, ranges }: AnnotatedTextProps) {
+  const [hiddenTypes, setHiddenTypes] = useState<AnnotationType[]>([]);
+
+  const visibleRanges = useMemo(
+    () => ranges.filter(range => !hiddenTypes.includes(range.type)),
+    [ranges, hiddenTypes]
+  );
+
+  const segments = useMemo(() => {
+    const boundaries = [...new Set([0, text.length, ...visibleRanges.flatMap(range => [range.start, range.end])])]
+      .filter(offset => offset >= 0 && offset <= text.length)
+      .sort((a, b) => a - b);
+
+    return boundaries.slice(0, -1).map((start, index) => {
+      const end = boundaries[index + 1];
+      const covering = visibleRanges
+        .filter(range => range.start <= start && range.end >= end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start));
+      return { start, end, covering };
+    });
+  }, [text, visibleRanges]);
+
+  const counts = useMemo(() => {
+    const totals = {} as Record<AnnotationType, number>;
+    ranges.forEach(range => {
+      totals[range.type] = (totals[range.type] || 0) + 1;
+    });
+    return totals;
+  }, [ranges]);
+
+  const toggleType = (type: AnnotationType) => {
+    setHiddenTypes(current =>
+      current.includes(type) ? current.filter(hidden => hidden !== type) : [...current, type]
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {annotationTypes.map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggleType(type)}
+            className={hiddenTypes.includes(type) ? 'opacity-40' : ''}
+            aria-pressed={!hiddenTypes.includes(type)}
+          >
+            <Badge variant="outline" className={annotationStyles[type].className}>
+              {annotationStyles[type].label}: {counts[type] || 0}
+            </Badge>
+          </button>
+        ))}
+      </div>
+
+      <TooltipProvider>
+        <div className="whitespace-pre-wrap text-sm leading-relaxed">
+          {segments.map(({ start, end, covering }) => {
+            const value = text.slice(start, end);
+            if (covering.length === 0) {
+              return <span key={start}>{value}</span>;
+            }
+            return (
+              <Tooltip key={start}>
+                <TooltipTrigger asChild>
+                  <span className={`${annotationStyles[covering[0].type].className} rounded-sm`}>{value}</span>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs space-y-1">
+                  {covering.map((range, index) => (
+                    <p key={index}>
+                      <span className="font-medium">{annotationStyles[range.type].label}:</span> {range.message}
+                    </p>
+                  ))}
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+        </div>
+      </TooltipProvider>
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+import { useRef } from 'react';
+import { toast } from 'sonner';
+import { GitCompare, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MAX_TEXT_LENGTH } from '@/lib/utils';
+
+const maxReferences = 5;
+
+export type ReferenceFormat = 'text' | 'markdown' | 'html';
+
+export interface ReferenceText {
+  id: number;
+  name: string;
+  format: ReferenceFormat;
+  text: string;
+}
+
+type ComparedMetric = 'wordCount' | 'readabilityScore' | 'avgWordsPerSentence' | 'headingCount' | 'imageCount' | 'linkCount' | 'seoScore';
+
+// Reading ease is null for text that isn't English
+type MetricValues = Record<ComparedMetric, number | null>;
+
+type DocumentSummary = MetricValues & {
+  name: string;
+  language: string;
+  focusDensity: number | null;
+};
+
+interface TermGap {
+  keyword: string;
+  type: 'term' | 'phrase';
+  references: number[];
+  referenceRate: number;
+  draftCount: number;
+  draftRate: number;
+  status: 'missing' | 'underused';
+}
+
+interface HeadingTopic {
+  heading: string;
+  references: number[];
+  coverage: 'heading' | 'text' | 'missing';
+  draftHeading: string | null;
+}
+
+export interface ComparisonReport {
+  draft: DocumentSummary;
+  references: DocumentSummary[];
+  averages: MetricValues;
+  deltas: MetricValues;
+  termGaps: TermGap[];
+  headingCoverage: HeadingTopic[];
+  suggestions: { type: string; message: string; priority: 'low' | 'medium' | 'high' }[];
+}
+
+interface CompetitorComparisonProps {
+  references: ReferenceText[];
+  onReferencesChange: (references: ReferenceText[]) => void;
+  report: ComparisonReport | null;
+  isComparing: boolean;
+  onCompare: () => void;
+}
+
+const metricRows: { key: ComparedMetric; label: string }[] = [
+  { key: 'wordCount', label: 'Word count' },
+  { key: 'readabilityScore', label: 'Reading ease' },
+  { key: 'avgWordsPerSentence', label: 'Words per sentence' },
+  { key: 'headingCount', label: 'Headings' },
+  { key: 'imageCount', label: 'Images' },
+  { key: 'linkCount', label: 'Links' },
+  { key: 'seoScore', label: 'SEO score' },
+];
+
+const coverageStyles: Record<HeadingTopic['coverage'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  heading: { label: 'Has a section', variant: 'default' },
+  text: { label: 'Mentioned only', variant: 'secondary' },
+  missing: { label: 'Not covered', variant: 'destructive' },
+};
+
+const formatFromFileName = (fileName: string): ReferenceFormat =>
+  /\.(md|markdown)$/i.test(fileName) ? 'markdown' : /\.html?$/i.test(fileName) ? 'html' : 'text';
+
+const formatMetric = (value: number | null) => value ?? '–';
+
+const formatDelta = (delta: number | null) => (delta === null ? '–' : delta > 0 ? `+${delta}` : `${delta}`);
+
+let nextReferenceId = 1;
+
+const createReference = (fields: Partial<Omit<ReferenceText, 'id'>> = {}): ReferenceText => ({
+  id: nextReferenceId++,
+  name: '',
+  format: 'text',
+  text: '',
+  ...fields,
+});
+
+// Benchmark the draft against up to five reference texts, usually the pages that rank for
+// its query: metrics side by side, terms the references share that the draft lacks, and
+// which of their sections the draft covers.
+export function CompetitorComparison({
+  references,
+  onReferencesChange,
+  report,
+  isComparing,
+  onCompare,
+}: CompetitorComparisonProps) {
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const updateReference = (id: number, fields: Partial<ReferenceText>) => {
+    onReferencesChange(references.map(reference => (reference.id === id ? { ...reference, ...fields } : reference)));
+  };
+
+  const uploadReferences = async (files: File[]) => {
+    const room = maxReferences - references.filter(reference => reference.text.trim()).length;
+    if (files.length > room) {
+      toast.info(`Only ${maxReferences} references can be compared; ${files.length - room} file${files.length - room === 1 ? ' was' : 's were'} skipped.`);
+    }
+    const read = await Promise.all(files.slice(0, Math.max(room, 0)).map(async file => createReference({
+      name: file.name.replace(/\.[^.]+$/, ''),
+      format: formatFromFileName(file.name),
+      text: await file.text(),
+    })));
+    // The server turns away longer texts, so don't let one fail the whole comparison
+    const uploaded = read.filter(reference => reference.text.length <= MAX_TEXT_LENGTH);
+    const tooLong = read.filter(reference => reference.text.length > MAX_TEXT_LENGTH);
+    if (tooLong.length > 0) {
+      toast.error(`${tooLong.map(reference => reference.name).join(', ')} ${tooLong.length === 1 ? 'is' : 'are'} longer than ${MAX_TEXT_LENGTH.toLocaleString('en-US')} characters and ${tooLong.length === 1 ? 'was' : 'were'} skipped.`);
+    }
+    // Uploads fill empty slots before adding new ones
+    onReferencesChange([...references.filter(reference => reference.text.trim()), ...uploaded].slice(0, maxReferences));
+  };
+
+  const filledCount = references.filter(reference => reference.text.trim()).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Reference Texts */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="w-5 h-5" />
+            Reference Texts
+          </CardTitle>
+          <CardDescription>
+            Paste or upload up to {maxReferences} competing pages. They're analyzed with the draft's language, rule profile and keywords.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {references.map((reference, index) => (
+            <div key={reference.id} className="space-y-2 border rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={reference.name}
+                  onChange={event => updateReference(reference.id, { name: event.target.value })}
+                  placeholder={`Reference ${index + 1}`}
+                  maxLength={100}
+                />
+                <Select
+                  value={reference.format}
+                  onValueChange={format => updateReference(reference.id, { format: format as ReferenceFormat })}
+                >
+                  <SelectTrigger className="w-full sm:w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="text">Plain text</SelectItem>
+                    <SelectItem value="markdown">Markdown</SelectItem>
+                    <SelectItem value="html">HTML</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onReferencesChange(references.filter(existing => existing.id !== reference.id))}
+                  title="Remove this reference"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Textarea
+                value={reference.text}
+                onChange={event => updateReference(reference.id, { text: event.target.value })}
+                placeholder="Paste a competing article..."
+                className="min-h-[120px] resize-none"
+                maxLength={MAX_TEXT_LENGTH}
+              />
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onReferencesChange([...references, createReference()])}
+              disabled={references.length >= maxReferences}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add reference
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInput.current?.click()}
+              disabled={filledCount >= maxReferences}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload files
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              accept=".txt,.md,.markdown,.html,.htm,text/plain,text/markdown,text/html"
+              className="hidden"
+              onChange={event => {
+                const files = Array.from(event.target.files ?? []);
+                if (files.length > 0) uploadReferences(files);
+                event.target.value = '';
+              }}
+            />
+            <Button type="button" className="ml-auto" onClick={onCompare} disabled={isComparing || filledCount === 0}>
+              {isComparing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Comparing...
+                </>
+              ) : (
+                <>
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  Compare
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          {/* Side-by-side Metrics */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Side by Side</CardTitle>
+              <CardDescription>Differences are the draft minus the reference average</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      <TableHead className="text-right">{report.draft.name}</TableHead>
+                      {report.references.map((reference, index) => (
+                        <TableHead key={index} className="text-right">{reference.name}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Average</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {metricRows.map(({ key, label }) => (
+                      <TableRow key={key}>
+                        <TableCell className="font-medium">{label}</TableCell>
+                        <TableCell className="text-right font-medium">{formatMetric(report.draft[key])}</TableCell>
+                        {report.references.map((reference, index) => (
+                          <TableCell key={index} className="text-right">{formatMetric(reference[key])}</TableCell>
+                        ))}
+                        <TableCell className="text-right">{formatMetric(report.averages[key])}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{formatDelta(report.deltas[key])}</TableCell>
+                      </TableRow>
+                    ))}
+                    {report.draft.focusDensity !== null && (
+                      <TableRow>
+                        <TableCell className="font-medium">Focus keyword density</TableCell>
+                        <TableCell className="text-right font-medium">{report.draft.focusDensity}%</TableCell>
+                        {report.references.map((reference, index) => (
+                          <TableCell key={index} className="text-right">{reference.focusDensity}%</TableCell>
+                        ))}
+                        <TableCell />
+                        <TableCell />
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {report.suggestions.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm text-muted-foreground list-disc pl-5">
+                  {report.suggestions.map((suggestion, index) => (
+                    <li key={index}>{suggestion.message}</li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Term Gaps */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Term Gaps</CardTitle>
+              <CardDescription>
+                Terms most references use that the draft leaves out or uses far less (rates are per 1,000 words)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.termGaps.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The draft uses every term the references share.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Term</TableHead>
+                      <TableHead>Used by</TableHead>
+                      <TableHead className="text-right">Reference rate</TableHead>
+                      <TableHead className="text-right">Draft</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.termGaps.map(gap => (
+                      <TableRow key={`${gap.type}-${gap.keyword}`}>
+                        <TableCell className="font-medium">
+                          {gap.keyword}
+                          {gap.type === 'phrase' && <Badge variant="outline" className="ml-2">phrase</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          {gap.references.length} of {report.references.length}
+                        </TableCell>
+                        <TableCell className="text-right">{gap.referenceRate}</TableCell>
+                        <TableCell className="text-right">{gap.draftCount}x</TableCell>
+                        <TableCell>
+                          <Badge variant={gap.status === 'missing' ? 'destructive' : 'secondary'}>
+                            {gap.status === 'missing' ? 'Missing' : 'Underused'}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Heading Coverage */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Heading Coverage</CardTitle>
+              <CardDescription>Sections from the references' subheadings and whether the draft covers them</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.headingCoverage.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  The references have no subheadings. Paste them as Markdown or HTML to compare sections.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Section</TableHead>
+                      <TableHead>Used by</TableHead>
+                      <TableHead>Draft</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.headingCoverage.map(topic => (
+                      <TableRow key={topic.heading}>
+                        <TableCell className="font-medium">{topic.heading}</TableCell>
+                        <TableCell>
+                          {topic.references.map(index => report.references[index].name).join(', ')}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={coverageStyles[topic.coverage].variant}>
+                            {coverageStyles[topic.coverage].label}
+                          </Badge>
+                          {topic.draftHeading && topic.draftHeading !== topic.heading && (
+                            <p className="text-xs text-muted-foreground mt-1">as "{topic.draftHeading}"</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { Undo2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { diffWords, revertHunk } from '@/lib/diff';
+
+interface InsertionDiffProps {
+  baseline: string;
+  current: string;
+  // Keywords inserted since the baseline, used to label each change
+  keywords: string[];
+  onRevert: (text: string, label: string) => void;
+}
+
+// The current text with every change since the baseline highlighted inline.
+// Each change can be reverted on its own without undoing later edits.
+export function InsertionDiff({ baseline, current, keywords, onRevert }: InsertionDiffProps) {
+  const ops = useMemo(() => diffWords(baseline, current), [baseline, current]);
+
+  // Name each hunk after the keyword it added, if any
+  const hunkLabels = useMemo(() => {
+    const labels = new Map<number, string>();
+    ops.forEach(op => {
+      if (op.type !== 'insert' || op.hunk === undefined) return;
+      const inserted = op.value.toLowerCase();
+      const keyword = keywords.find(candidate => inserted.includes(candidate.toLowerCase()));
+      labels.set(op.hunk, keyword ?? labels.get(op.hunk) ?? 'Edit');
+    });
+    return labels;
+  }, [ops, keywords]);
+
+  const changeCount = new Set(
+    ops.filter(op => op.hunk !== undefined && op.value.trim()).map(op => op.hunk)
+  ).size;
+
+  if (changeCount === 0) {
+    return <div className="whitespace-pre-wrap text-sm leading-relaxed">{current}</div>;
+  }
+
+  return (
+    <TooltipProvider>
+      <div className="whitespace-pre-wrap text-sm leading-relaxed">
+        {ops.map((op, index) => {
+          if (op.type === 'equal') {
+            return <span key={index}>{op.value}</span>;
+          }
+          // Whitespace-only changes (reflowed lines) aren't worth highlighting
+          if (!op.value.trim()) {
+            return op.type === 'insert' ? <span key={index}>{op.value}</span> : null;
+          }
+          if (op.type === 'delete') {
+            return (
+              <del key={index} className="text-red-600 bg-red-50 dark:bg-red-950/40 line-through">
+                {op.value}
+              </del>
+            );
+          }
+
+          const label = hunkLabels.get(op.hunk!) ?? 'Edit';
+          return (
+            <Tooltip key={index}>
+              <TooltipTrigger asChild>
+                <mark className="bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100 rounded px-0.5">
+                  {op.value}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-4 w-4 ml-1 align-middle"
+                    aria-label={`Revert "${label}"`}
+                    onClick={() => onRevert(revertHunk(ops, op.hunk!), `Revert "${label}"`)}
+                  >
+                    <Undo2 className="h-3 w-3" />
+                  </Button>
+                </mark>
+              </TooltipTrigger>
+              <TooltipContent>Inserted "{label}". Click the arrow to revert this change.</TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { FolderOpen, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ProjectDetail, ProjectSummary } from '@/hooks/use-projects';
+import { cn } from '@/lib/utils';
+
+interface ProjectsSidebarProps {
+  projects: ProjectSummary[];
+  isLoading: boolean;
+  activeProject: ProjectDetail | null;
+  activeVersion: number | null;
+  onOpenProject: (id: string) => void;
+  onOpenVersion: (version: number) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type NameDialogState = { mode: 'create' } | { mode: 'rename'; project: ProjectSummary };
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Slide-out list of saved projects. The open project expands to its saved versions,
+// newest first, so an earlier draft can be reopened.
+export function ProjectsSidebar({
+  projects,
+  isLoading,
+  activeProject,
+  activeVersion,
+  onOpenProject,
+  onOpenVersion,
+  onCreate,
+  onRename,
+  onDelete,
+}: ProjectsSidebarProps) {
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ProjectSummary | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openNameDialog = (state: NameDialogState) => {
+    setNameInput(state.mode === 'rename' ? state.project.name : '');
+    setNameDialog(state);
+  };
+
+  const submitName = async () => {
+    if (!nameDialog || !nameInput.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (nameDialog.mode === 'create') {
+        await onCreate(nameInput.trim());
+        toast.success(`Project "${nameInput.trim()}" created.`);
+      } else {
+        await onRename(nameDialog.project.id, nameInput.trim());
+        toast.success('Project renamed.');
+      }
+      setNameDialog(null);
+    } catch (error) {
+      console.error('Project save error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save project.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await onDelete(pendingDelete.id);
+      toast.success(`Project "${pendingDelete.name}" deleted.`);
+    } catch (error) {
+      console.error('Project deletion error:', error);
+      toast.error('Failed to delete project. Please try again.');
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Sheet>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm">
+            <FolderOpen className="w-4 h-4 mr-2" />
+            {activeProject ? activeProject.name : 'Projects'}
+          </Button>
+        </SheetTrigger>
+        <SheetContent side="left" className="flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Projects</SheetTitle>
+            <SheetDescription>
+              Save drafts with their analysis and reopen any saved version later.
+            </SheetDescription>
+          </SheetHeader>
+
+          <Button onClick={() => openNameDialog({ mode: 'create' })}>
+            <Plus className="w-4 h-4 mr-2" />
+            New project
+          </Button>
+
+          <ScrollArea className="flex-1 -mx-2">
+            <div className="space-y-1 px-2">
+              {isLoading && (
+                <p className="flex items-center text-sm text-muted-foreground py-4">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Loading projects...
+                </p>
+              )}
+              {!isLoading && projects.length === 0 && (
+                <p className="text-sm text-muted-foreground py-4">
+                  No saved projects yet. Create one to keep your drafts between visits.
+                </p>
+              )}
+              {projects.map(project => {
+                const isActive = project.id === activeProject?.id;
+                return (
+                  <div key={project.id} className={cn('rounded-md border', isActive && 'border-primary bg-muted/50')}>
+                    <div className="flex items-center gap-1 p-2">
+                      <button
+                        type="button"
+                        className="flex-1 min-w-0 text-left"
+                        onClick={() => onOpenProject(project.id)}
+                      >
+                        <p className="font-medium truncate">{project.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {project.snapshotCount} version{project.snapshotCount === 1 ? '' : 's'} · {formatTimestamp(project.updatedAt)}
+                        </p>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openNameDialog({ mode: 'rename', project })}
+                        aria-label={`Rename ${project.name}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setPendingDelete(project)}
+                        aria-label={`Delete ${project.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    {/* Saved versions of the open project */}
+                    {isActive && activeProject && activeProject.snapshots.length > 0 && (
+                      <div className="border-t px-2 py-1">
+                        {[...activeProject.snapshots].reverse().map(snapshot => (
+                          <button
+                            key={snapshot.version}
+                            type="button"
+                            onClick={() => onOpenVersion(snapshot.version)}
+                            className={cn(
+                              'flex w-full justify-between rounded px-2 py-1 text-xs hover:bg-muted',
+                              snapshot.version === activeVersion && 'font-semibold text-primary'
+                            )}
+                          >
+                            <span>Version {snapshot.version} · {snapshot.wordCount} words</span>
+                            <span className="text-muted-foreground">{formatTimestamp(snapshot.createdAt)}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+
+      {/* Create and rename */}
+      <Dialog open={nameDialog !== null} onOpenChange={open => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename project' : 'New project'}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={event => {
+              event.preventDefault();
+              submitName();
+            }}
+          >
+            <Input
+              value={nameInput}
+              onChange={event => setNameInput(event.target.value)}
+              placeholder="e.g. Spring product launch post"
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !nameInput.trim()}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {nameDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={pendingDelete !== null} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project and all {pendingDelete?.snapshotCount} saved version{pendingDelete?.snapshotCount === 1 ? '' : 's'} will be removed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -14,30 +14,139 @@ import {
   BarChart3,
   Eye,
   AlertCircle,
-  CheckCircle2
+  CheckCircle2,
+  Heading1,
+  Image as ImageIcon,
+  Link2,
+  List,
+  ListTree,
+  Globe,
+  Monitor,
+  Smartphone,
+  Undo2,
+  Redo2,
+  Highlighter,
+  Upload,
+  XCircle,
+  MinusCircle,
+  Gauge,
+  Link as LinkIcon,
+  Download
 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { InsertionDiff } from '@/components/InsertionDiff';
+import { AnnotatedText, type Annotation } from '@/components/AnnotatedText';
+import { ProjectsSidebar } from '@/components/ProjectsSidebar';
+import { ScoreTrendChart } from '@/components/ScoreTrendChart';
+import { CompetitorComparison, type ComparisonReport, type ReferenceText } from '@/components/CompetitorComparison';
+import { TopicCoverage, type TopicReport } from '@/components/TopicCoverage';
+import { useEditHistory } from '@/hooks/use-edit-history';
+import { useProjects, type ProjectDetail } from '@/hooks/use-projects';
+import { MAX_TEXT_LENGTH } from '@/lib/utils';
+
+const parseKeywordList = (value: string) =>
+  value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+
+const languageNames = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  fr: 'French',
+  pt: 'Portuguese',
+  it: 'Italian',
+  nl: 'Dutch',
+  hi: 'Hindi',
+} as const;
+
+type LanguageCode = keyof typeof languageNames;
+
+const languageCodes = Object.keys(languageNames) as LanguageCode[];
+
+const defaultRuleProfile = 'general';
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
 
 const formSchema = z.object({
+  // Paste content, or fetch a published page and analyze its main article
+  source: z.enum(['text', 'url']),
+  url: z.string(),
+  format: z.enum(['text', 'markdown', 'html']),
+  language: z.enum(['auto', ...languageCodes] as [string, ...string[]]),
+  ruleProfile: z.string().min(1, 'Choose a rule profile'),
   text: z.string()
-    .min(50, 'Text must be at least 50 characters long')
-    .max(50000, 'Text must be less than 50,000 characters'),
+    .max(MAX_TEXT_LENGTH, `Text must be less than ${MAX_TEXT_LENGTH.toLocaleString('en-US')} characters`),
+  focusKeyword: z.string()
+    .max(100, 'Focus keyword must be less than 100 characters'),
+  secondaryKeywords: z.string()
+    .max(500, 'Secondary keywords must be less than 500 characters')
+    .refine(value => parseKeywordList(value).length <= 10, 'Enter at most 10 secondary keywords'),
+  metaTitle: z.string()
+    .max(300, 'Meta title must be less than 300 characters'),
+  metaDescription: z.string()
+    .max(1000, 'Meta description must be less than 1,000 characters'),
+}).superRefine((data, ctx) => {
+  if (data.source === 'text' && data.text.length < 50) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['text'], message: 'Text must be at least 50 characters long' });
+  }
+  if (data.source === 'url' && !isHttpUrl(data.url.trim())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'Enter a full URL, including http:// or https://' });
+  }
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -46,17 +155,99 @@ interface SEOMetrics {
   wordCount: number;
   sentenceCount: number;
   paragraphCount: number;
-  readabilityScore: number;
+  // Reading ease and syllables are only measured for English text
+  readabilityScore: number | null;
   avgWordsPerSentence: number;
   avgSentencesPerParagraph: number;
+  avgSyllablesPerWord: number | null;
+}
+
+interface ReadabilityFormula {
+  score: number;
+  band: string;
+}
+
+interface ReadabilityReport {
+  fleschReadingEase: ReadabilityFormula;
+  fleschKincaidGrade: ReadabilityFormula;
+  gunningFog: ReadabilityFormula;
+  smog: ReadabilityFormula;
+  colemanLiau: ReadabilityFormula;
+  automatedReadabilityIndex: ReadabilityFormula;
+}
+
+interface StyleReport {
+  sentenceCount: number;
+  passiveSentences: number;
+  passivePercent: number;
+  transitionSentences: number;
+  transitionPercent: number;
 }
 
 interface Keyword {
   keyword: string;
+  type: 'phrase' | 'term';
   frequency: number;
   relevance: number;
   searchVolume: number;
   difficulty: number;
+  cpc: number;
+  metricsSource: 'dataset' | 'estimate';
+}
+
+interface KeywordPlacement {
+  keyword: string;
+  occurrences: number;
+  density: number;
+  inFirstParagraph: number;
+  inHeadings: number;
+  headingCount: number;
+  inIntroduction: number;
+  inConclusion: number;
+  maxPerSentence: number;
+}
+
+interface FocusReport {
+  primary: KeywordPlacement;
+  secondary: KeywordPlacement[];
+}
+
+interface HeadingInfo {
+  level: number;
+  text: string;
+}
+
+interface StructureReport {
+  format: 'text' | 'markdown' | 'html';
+  headings: HeadingInfo[];
+  h1Count: number;
+  hierarchyGaps: { heading: string; from: number; to: number }[];
+  imageCount: number;
+  imagesMissingAlt: string[];
+  internalLinks: number;
+  externalLinks: number;
+  listCount: number;
+  listItemCount: number;
+}
+
+interface SnippetLine {
+  display: string;
+  truncated: boolean;
+}
+
+interface MetaField {
+  text: string;
+  source: 'provided' | 'generated';
+  length: number;
+  pixelWidth: number;
+  desktop: SnippetLine;
+  mobile: SnippetLine;
+  containsFocusKeyword: boolean | null;
+}
+
+interface MetaReport {
+  title: MetaField;
+  description: MetaField;
 }
 
 interface Suggestion {
@@ -65,54 +256,774 @@ interface Suggestion {
   priority: 'low' | 'medium' | 'high';
 }
 
+interface BatchInsertionResult {
+  keyword: string;
+  inserted: boolean;
+  reason: 'exists' | 'no-position' | 'density' | null;
+}
+
+interface InsertionCandidate {
+  offset: number;
+  sentenceIndex: number;
+  strategy: 'clause' | 'preposition' | 'sentence-end';
+  score: number;
+  preview: { before: string; insertion: string; after: string };
+}
+
+type RuleOutcome = 'pass' | 'warn' | 'fail' | 'skipped';
+
+interface RuleResult {
+  id: string;
+  label: string;
+  category: 'length' | 'readability' | 'keywords' | 'structure' | 'meta';
+  weight: number;
+  outcome: RuleOutcome;
+  message: string;
+}
+
+interface ScoringReport {
+  profile: { id: string; name: string };
+  score: number;
+  rules: RuleResult[];
+}
+
+interface RuleProfile {
+  id: string;
+  name: string;
+  description: string;
+  source: 'built-in' | 'custom';
+}
+
+interface LanguageInfo {
+  code: LanguageCode;
+  name: string;
+  source: 'detected' | 'provided';
+  confidence: number | null;
+}
+
+interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  canonical: string | null;
+  hreflang: { language: string; href: string }[];
+  openGraph: Record<'title' | 'description' | 'image' | 'type' | 'url' | 'site_name', string | null>;
+  language: string | null;
+  robots: string | null;
+}
+
+// What /api/analyze-url fetched and how it found the article
+interface PageReport {
+  url: string;
+  status: number;
+  content: string;
+  metadata: PageMetadata;
+  extraction: { method: 'article' | 'main' | 'density' | 'body'; removedBlocks: number };
+}
+
+// What /api/analyze-file extracted from an uploaded document
+interface FileReport {
+  name: string;
+  type: 'docx' | 'markdown' | 'html' | 'text';
+  size: number;
+  format: FormValues['format'];
+  content: string;
+  metadata: { title: string | null; description: string | null };
+  warnings: { element: string; count: number; message: string }[];
+}
+
 interface AnalysisResult {
+  language: LanguageInfo;
   metrics: SEOMetrics;
+  readability: ReadabilityReport | null;
+  style: StyleReport | null;
   keywords: Keyword[];
+  focus: FocusReport | null;
+  topics: TopicReport | null;
+  structure: StructureReport;
+  meta: MetaReport;
+  annotations: { text: string; ranges: Annotation[] };
   suggestions: Suggestion[];
+  scoring: ScoringReport;
+  seoScore: number;
+  page?: PageReport;
+  file?: FileReport;
+}
+
+// Analysis options as the server echoes them back with a saved snapshot
+interface AnalysisSettings {
+  format: FormValues['format'];
+  language: FormValues['language'];
+  // Missing for versions saved before rule profiles existed
+  ruleProfile?: string;
+  focusKeyword?: string;
+  secondaryKeywords: string[];
+  metaTitle?: string;
+  metaDescription?: string;
 }
 
+interface ProjectSnapshot {
+  version: number;
+  createdAt: string;
+  text: string;
+  settings: AnalysisSettings;
+  analysis: AnalysisResult;
+}
+
+const readabilityFormulas: { key: keyof ReadabilityReport; label: string }[] = [
+  { key: 'fleschReadingEase', label: 'Flesch Reading Ease' },
+  { key: 'fleschKincaidGrade', label: 'Flesch-Kincaid Grade' },
+  { key: 'gunningFog', label: 'Gunning Fog' },
+  { key: 'smog', label: 'SMOG' },
+  { key: 'colemanLiau', label: 'Coleman-Liau' },
+  { key: 'automatedReadabilityIndex', label: 'Automated Readability Index' },
+];
+
+// Content guidelines for sentence style, mirroring the server checks
+const maxPassivePercent = 10;
+const minTransitionPercent = 30;
+
+const getStyleChecks = (style: StyleReport) => [
+  {
+    label: 'Passive voice',
+    value: style.passivePercent,
+    count: style.passiveSentences,
+    total: style.sentenceCount,
+    target: `Under ${maxPassivePercent}% of sentences`,
+    passed: style.passivePercent < maxPassivePercent,
+  },
+  {
+    label: 'Transition words',
+    value: style.transitionPercent,
+    count: style.transitionSentences,
+    total: style.sentenceCount,
+    target: `Over ${minTransitionPercent}% of sentences`,
+    passed: style.transitionPercent > minTransitionPercent,
+  },
+];
+
+const ruleOutcomeStyles: Record<RuleOutcome, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  pass: { label: 'Pass', icon: CheckCircle2, className: 'text-green-600' },
+  warn: { label: 'Warning', icon: AlertCircle, className: 'text-yellow-500' },
+  fail: { label: 'Fail', icon: XCircle, className: 'text-red-500' },
+  skipped: { label: 'Not applicable', icon: MinusCircle, className: 'text-muted-foreground' },
+};
+
+const getScoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 50 ? 'text-yellow-500' : 'text-red-500';
+
+// Keyword density range (percent of words) that reads naturally, mirroring the server checks
+const minKeywordDensity = 0.5;
+const maxKeywordDensity = 2.5;
+
+const isDensityInRange = (density: number) =>
+  density >= minKeywordDensity && density <= maxKeywordDensity;
+
+const getPlacementChecks = (placement: KeywordPlacement) => [
+  { label: `Appears ${placement.occurrences}x in the text`, passed: placement.occurrences > 0 },
+  { label: 'Used in the first paragraph', passed: placement.inFirstParagraph > 0 },
+  {
+    label: placement.headingCount > 0
+      ? `Used in ${placement.inHeadings} of ${placement.headingCount} headings`
+      : 'No headings detected',
+    passed: placement.inHeadings > 0,
+  },
+  { label: 'Used in the first 10% of the text', passed: placement.inIntroduction > 0 },
+  { label: 'Used in the last 10% of the text', passed: placement.inConclusion > 0 },
+  { label: 'Not repeated within a single sentence', passed: placement.maxPerSentence <= 2 },
+];
+
+// Pause in typing before live mode re-analyzes the draft
+const liveAnalysisDelay = 600;
+
+// Request body shared by /api/analyze and saved project snapshots
+const toAnalysisRequest = (data: FormValues) => ({
+  text: data.text,
+  format: data.format,
+  language: data.language,
+  ruleProfile: data.ruleProfile,
+  focusKeyword: data.focusKeyword.trim() || undefined,
+  secondaryKeywords: parseKeywordList(data.secondaryKeywords),
+  metaTitle: data.metaTitle.trim() || undefined,
+  metaDescription: data.metaDescription.trim() || undefined,
+});
+
+const toFormValues = ({ text, settings }: ProjectSnapshot): FormValues => ({
+  source: 'text',
+  url: '',
+  text,
+  format: settings.format,
+  language: settings.language,
+  ruleProfile: settings.ruleProfile ?? defaultRuleProfile,
+  focusKeyword: settings.focusKeyword ?? '',
+  secondaryKeywords: settings.secondaryKeywords.join(', '),
+  metaTitle: settings.metaTitle ?? '',
+  metaDescription: settings.metaDescription ?? '',
+});
+
+const fetchAnalysis = async (data: FormValues, signal: AbortSignal): Promise<AnalysisResult> => {
+  const response = await fetch('/api/analyze', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(toAnalysisRequest(data)),
+    signal,
+  });
+  
+  if (!response.ok) {
+    throw new Error('Failed to analyze text');
+  }
+  
+  const result = await response.json();
+  return result.data;
+};
+
+// Fetch a published page and analyze its main content. The page's own title and meta
+// description are used, so only the keyword and scoring options are sent.
+const fetchUrlAnalysis = async (data: FormValues, signal: AbortSignal): Promise<AnalysisResult> => {
+  const { language, ruleProfile, focusKeyword, secondaryKeywords } = toAnalysisRequest(data);
+  const response = await fetch('/api/analyze-url', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url: data.url.trim(), language, ruleProfile, focusKeyword, secondaryKeywords }),
+    signal,
+  });
+  
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to analyze page');
+  }
+  return result.data;
+};
+
+// Upload a document and analyze its extracted text with the current keyword and scoring
+// options. Meta fields left blank fall back to the document's own title and description.
+const fetchFileAnalysis = async (file: File, data: FormValues, signal: AbortSignal): Promise<AnalysisResult> => {
+  const { language, ruleProfile, focusKeyword, secondaryKeywords, metaTitle, metaDescription } = toAnalysisRequest(data);
+  const body = new FormData();
+  body.append('file', file);
+  body.append('language', language);
+  body.append('ruleProfile', ruleProfile);
+  if (focusKeyword) body.append('focusKeyword', focusKeyword);
+  secondaryKeywords.forEach(keyword => body.append('secondaryKeywords', keyword));
+  if (metaTitle) body.append('metaTitle', metaTitle);
+  if (metaDescription) body.append('metaDescription', metaDescription);
+  
+  const response = await fetch('/api/analyze-file', { method: 'POST', body, signal });
+  
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to analyze file');
+  }
+  return result.data;
+};
+
+const maxUploadBytes = 10 * 1024 * 1024;
+
+const uploadAccept = '.docx,.md,.markdown,.html,.htm,.txt';
+
+const fileTypeLabels: Record<FileReport['type'], string> = {
+  docx: 'Word document',
+  markdown: 'Markdown',
+  html: 'HTML',
+  text: 'Plain text',
+};
+
+const extractionLabels: Record<PageReport['extraction']['method'], string> = {
+  article: 'The page\'s <article> element',
+  main: 'The page\'s <main> element',
+  density: 'The block with the most paragraph text',
+  body: 'The whole page body',
+};
+
+type ReportFormat = 'pdf' | 'html' | 'csv' | 'json';
+
+const reportFormats: { format: ReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF report' },
+  { format: 'html', label: 'HTML report' },
+  { format: 'csv', label: 'Keywords (CSV)' },
+  { format: 'json', label: 'Raw data (JSON)' },
+];
+
+// Render the current analysis as a report on the server and save it. The report includes the
+// draft as edited, so keyword insertions made after analyzing are kept.
+const downloadReport = async (format: ReportFormat, analysis: AnalysisResult, updatedText: string, title?: string) => {
+  const response = await fetch(`/api/report/${format}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ analysis, updatedText, title: title?.slice(0, 200) }),
+  });
+  
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to export report');
+  }
+  
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `seo-report.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Analyze the draft and store it as the project's next version
+const saveSnapshot = async (projectId: string, data: FormValues, signal: AbortSignal): Promise<ProjectSnapshot> => {
+  const response = await fetch(`/api/projects/${projectId}/snapshots`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(toAnalysisRequest(data)),
+    signal,
+  });
+  
+  if (!response.ok) {
+    throw new Error('Failed to save snapshot');
+  }
+  
+  const result = await response.json();
+  return result.data;
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const placementLabels: Record<InsertionCandidate['strategy'], string> = {
+  clause: 'Between clauses',
+  preposition: 'Before a prepositional phrase',
+  'sentence-end': 'End of sentence',
+};
+
+// The text with a candidate placement applied; candidates are offsets into the text they were scored on
+const insertCandidate = (text: string, candidate: InsertionCandidate) =>
+  text.slice(0, candidate.offset) + candidate.preview.insertion + text.slice(candidate.offset);
+
+// URL slug for the search result preview's breadcrumb
+const toSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'page';
+
 export function SEOAnalyzer() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [liveMode, setLiveMode] = useState(false);
+  const [isLiveUpdating, setIsLiveUpdating] = useState(false);
+  // The analysis request in flight; a newer one cancels it
+  const analysisController = useRef<AbortController | null>(null);
+  const [ruleProfiles, setRuleProfiles] = useState<RuleProfile[]>([]);
+  const ruleProfileInput = useRef<HTMLInputElement | null>(null);
+  const documentInput = useRef<HTMLInputElement | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [isInserting, setIsInserting] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [currentText, setCurrentText] = useState('');
+  const history = useEditHistory();
+  const currentText = history.current.text;
+  const [serpDevice, setSerpDevice] = useState<'desktop' | 'mobile'>('desktop');
+  const [selectedKeywords, setSelectedKeywords] = useState<string[]>([]);
+  const [isBatchInserting, setIsBatchInserting] = useState(false);
+  const [placementChoice, setPlacementChoice] = useState<{ keyword: string; candidates: InsertionCandidate[] } | null>(null);
+  const { projects, isLoading: isLoadingProjects, refresh: refreshProjects, createProject, renameProject, deleteProject } = useProjects();
+  const [activeProject, setActiveProject] = useState<ProjectDetail | null>(null);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [references, setReferences] = useState<ReferenceText[]>([]);
+  const [comparison, setComparison] = useState<ComparisonReport | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      source: 'text',
+      url: '',
+      format: 'text',
+      language: 'auto',
+      ruleProfile: defaultRuleProfile,
       text: '',
+      focusKeyword: '',
+      secondaryKeywords: '',
+      metaTitle: '',
+      metaDescription: '',
     },
   });
 
+  const source = form.watch('source');
+
+  useEffect(() => {
+    fetch('/api/rule-profiles')
+      .then(response => response.json())
+      .then(result => setRuleProfiles(result.data))
+      .catch(error => console.error('Rule profile list error:', error));
+  }, []);
+
+  // Keep the editor in step with undo, redo and reverts
+  useEffect(() => {
+    if (form.getValues('text') !== currentText) {
+      form.setValue('text', currentText);
+    }
+  }, [currentText, form]);
+
+  const { undo, redo } = history;
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      // Leave text fields to their native undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Live mode: re-analyze shortly after the draft stops changing. Results stay on screen
+  // while the next analysis runs, so the Overview cards follow the draft as it's written.
+  const { reset: resetHistory } = history;
+  useEffect(() => {
+    if (!liveMode) return;
+    
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Typing replaces the text insertions were made into, so it becomes the new baseline
+    let draftEdited = false;
+    
+    const analyzeDraft = async () => {
+      const values = form.getValues();
+      // Pages are fetched only on request, never while typing a URL
+      if (values.source === 'url') return;
+      const parsed = formSchema.safeParse(values);
+      if (!parsed.success) return;
+      
+      analysisController.current?.abort();
+      const controller = new AbortController();
+      analysisController.current = controller;
+      setIsLiveUpdating(true);
+      
+      try {
+        const result = await fetchAnalysis(parsed.data, controller.signal);
+        setAnalysisResult(result);
+        if (draftEdited) {
+          resetHistory(parsed.data.text);
+          draftEdited = false;
+        }
+      } catch (error) {
+        if (!isAbortError(error)) console.error('Live analysis error:', error);
+      } finally {
+        if (!controller.signal.aborted) setIsLiveUpdating(false);
+      }
+    };
+    
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(analyzeDraft, liveAnalysisDelay);
+    };
+    
+    schedule();
+    const subscription = form.watch((_, { name, type }) => {
+      if (name === 'text' && type === 'change') draftEdited = true;
+      schedule();
+    });
+    
+    return () => {
+      clearTimeout(timer);
+      subscription.unsubscribe();
+      analysisController.current?.abort();
+      setIsLiveUpdating(false);
+    };
+  }, [liveMode, form, resetHistory]);
+
   const onSubmit = async (data: FormValues) => {
     setIsAnalyzing(true);
-    setCurrentText(data.text);
+    history.reset(data.text);
+    setSelectedKeywords([]);
+    
+    analysisController.current?.abort();
+    const controller = new AbortController();
+    analysisController.current = controller;
+    
+    if (data.source === 'url') {
+      await analyzePage(data, controller.signal);
+      return;
+    }
     
     try {
-      const response = await fetch('/api/analyze', {
+      // With a project open, every analysis is recorded as a new version
+      if (activeProject) {
+        const snapshot = await saveSnapshot(activeProject.id, data, controller.signal);
+        setAnalysisResult(snapshot.analysis);
+        recordSnapshot(snapshot);
+        toast.success(`Analysis saved as version ${snapshot.version} of "${activeProject.name}".`);
+      } else {
+        setAnalysisResult(await fetchAnalysis(data, controller.signal));
+        toast.success('Analysis completed successfully!');
+      }
+      
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Analysis error:', error);
+      toast.error('Failed to analyze text. Please try again.');
+    } finally {
+      if (!controller.signal.aborted) setIsAnalyzing(false);
+    }
+  };
+
+  // The extracted article and the page's head tags become the draft, so keyword insertion,
+  // highlights and a switch back to text mode all work on what was fetched
+  const analyzePage = async (data: FormValues, signal: AbortSignal) => {
+    try {
+      const result = await fetchUrlAnalysis(data, signal);
+      const { page } = result;
+      if (page) {
+        form.setValue('text', page.content);
+        form.setValue('format', 'html');
+        form.setValue('metaTitle', page.metadata.title?.slice(0, 300) ?? '');
+        form.setValue('metaDescription', page.metadata.description?.slice(0, 1000) ?? '');
+        history.reset(page.content);
+      }
+      setAnalysisResult(result);
+      toast.success('Page analyzed successfully!');
+      
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('URL analysis error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to analyze page. Please try again.');
+    } finally {
+      if (!signal.aborted) setIsAnalyzing(false);
+    }
+  };
+
+  // The document's extracted text becomes the draft, like a fetched page, so the editor,
+  // insertion and highlights all work on what was uploaded
+  const analyzeFile = async (file: File) => {
+    if (file.size > maxUploadBytes) {
+      toast.error('Files must be 10 MB or smaller.');
+      return;
+    }
+    
+    setIsAnalyzing(true);
+    setSelectedKeywords([]);
+    
+    analysisController.current?.abort();
+    const controller = new AbortController();
+    analysisController.current = controller;
+    
+    try {
+      const result = await fetchFileAnalysis(file, form.getValues(), controller.signal);
+      const uploaded = result.file;
+      if (uploaded) {
+        form.setValue('source', 'text');
+        form.setValue('text', uploaded.content);
+        form.setValue('format', uploaded.format);
+        if (!form.getValues('metaTitle').trim()) form.setValue('metaTitle', uploaded.metadata.title?.slice(0, 300) ?? '');
+        if (!form.getValues('metaDescription').trim()) form.setValue('metaDescription', uploaded.metadata.description?.slice(0, 1000) ?? '');
+        history.reset(uploaded.content);
+      }
+      setAnalysisResult(result);
+      const warnings = uploaded?.warnings.length ?? 0;
+      if (warnings > 0) {
+        toast.warning(`${file.name} analyzed with ${warnings} extraction warning${warnings === 1 ? '' : 's'}. See the Overview tab.`);
+      } else {
+        toast.success(`${file.name} analyzed successfully!`);
+      }
+      
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('File analysis error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to analyze file. Please try again.');
+    } finally {
+      if (!controller.signal.aborted) setIsAnalyzing(false);
+    }
+  };
+
+  const exportReport = async (format: ReportFormat) => {
+    if (!analysisResult) return;
+    
+    setIsExporting(true);
+    try {
+      const title = activeProject?.name || analysisResult.page?.metadata.title || analysisResult.file?.name || form.getValues('metaTitle').trim() || undefined;
+      await downloadReport(format, analysisResult, currentText, title);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export report. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Benchmark the current draft, with its analysis settings, against the reference texts
+  const compareWithReferences = async () => {
+    const filled = references.filter(reference => reference.text.trim());
+    if (filled.length === 0) return;
+    
+    setIsComparing(true);
+    
+    try {
+      const response = await fetch('/api/compare', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ text: data.text }),
+        body: JSON.stringify({
+          ...toAnalysisRequest(form.getValues()),
+          references: filled.map(({ name, format, text }) => ({ name: name.trim() || undefined, format, text })),
+        }),
       });
+      const result = await response.json();
       
       if (!response.ok) {
-        throw new Error('Failed to analyze text');
+        toast.error(`Comparison failed: ${result.error}`);
+        return;
       }
       
-      const result = await response.json();
-      setAnalysisResult(result.data);
-      toast.success('Analysis completed successfully!');
+      setComparison(result.data);
       
     } catch (error) {
-      console.error('Analysis error:', error);
-      toast.error('Failed to analyze text. Please try again.');
+      console.error('Comparison error:', error);
+      toast.error('Failed to compare texts. Please try again.');
     } finally {
-      setIsAnalyzing(false);
+      setIsComparing(false);
+    }
+  };
+
+  // Upload a team's rule profile JSON; once the server accepts it, it's selected for the next analysis
+  const loadRuleProfile = async (file: File) => {
+    let profile: unknown;
+    try {
+      profile = JSON.parse(await file.text());
+    } catch {
+      toast.error(`${file.name} is not valid JSON.`);
+      return;
+    }
+    
+    try {
+      const response = await fetch('/api/rule-profiles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(profile),
+      });
+      const result = await response.json();
+      
+      if (!response.ok) {
+        toast.error(`Rule profile rejected: ${result.error}`);
+        return;
+      }
+      
+      const saved: RuleProfile = result.data;
+      setRuleProfiles(current => [...current.filter(existing => existing.id !== saved.id), saved]);
+      form.setValue('ruleProfile', saved.id);
+      toast.success(`Rule profile "${saved.name}" loaded.`);
+      
+    } catch (error) {
+      console.error('Rule profile upload error:', error);
+      toast.error('Failed to load the rule profile. Please try again.');
+    }
+  };
+
+  // Put a saved version back in the editor along with the analysis stored with it
+  const loadSnapshot = (snapshot: ProjectSnapshot) => {
+    analysisController.current?.abort();
+    form.reset(toFormValues(snapshot));
+    history.reset(snapshot.text);
+    setAnalysisResult(snapshot.analysis);
+    setSelectedKeywords([]);
+    setActiveVersion(snapshot.version);
+  };
+
+  const openProject = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to open project');
+      }
+      const result = await response.json();
+      const { latest, ...project }: ProjectDetail & { latest: ProjectSnapshot | null } = result.data;
+      
+      setActiveProject(project);
+      setActiveVersion(null);
+      // An empty project keeps the current draft so it can be saved as the first version
+      if (latest) loadSnapshot(latest);
+      
+    } catch (error) {
+      console.error('Project open error:', error);
+      toast.error('Failed to open project. Please try again.');
     }
   };
 
+  const openVersion = async (version: number) => {
+    if (!activeProject) return;
+    
+    try {
+      const response = await fetch(`/api/projects/${activeProject.id}/snapshots/${version}`);
+      if (!response.ok) {
+        throw new Error('Failed to open version');
+      }
+      const result = await response.json();
+      loadSnapshot(result.data);
+      toast.success(`Restored version ${version}.`);
+      
+    } catch (error) {
+      console.error('Version open error:', error);
+      toast.error('Failed to open this version. Please try again.');
+    }
+  };
+
+  // Add a newly saved version to the open project's list and trend
+  const recordSnapshot = (snapshot: ProjectSnapshot) => {
+    setActiveVersion(snapshot.version);
+    setActiveProject(current => current && {
+      ...current,
+      snapshotCount: current.snapshotCount + 1,
+      latestVersion: snapshot.version,
+      updatedAt: snapshot.createdAt,
+      snapshots: [
+        ...current.snapshots,
+        {
+          version: snapshot.version,
+          createdAt: snapshot.createdAt,
+          wordCount: snapshot.analysis.metrics.wordCount,
+          readabilityScore: snapshot.analysis.metrics.readabilityScore,
+          seoScore: snapshot.analysis.seoScore,
+        },
+      ],
+    });
+    refreshProjects();
+  };
+
+  const handleCreateProject = async (name: string) => {
+    setActiveProject(await createProject(name));
+    setActiveVersion(null);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    const renamed = await renameProject(id, name);
+    setActiveProject(current => current && current.id === id ? { ...current, name: renamed.name } : current);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    await deleteProject(id);
+    if (activeProject?.id === id) {
+      setActiveProject(null);
+      setActiveVersion(null);
+    }
+  };
+
+  const applyPlacement = (keyword: string, updatedText: string) => {
+    history.push({ text: updatedText, label: `Insert "${keyword}"`, keywords: [keyword] });
+    setPlacementChoice(null);
+    toast.success(`Keyword "${keyword}" inserted successfully!`);
+  };
+
   const insertKeyword = async (keyword: string) => {
     if (!currentText) return;
     
@@ -136,12 +1047,15 @@ export function SEOAnalyzer() {
       
       const result = await response.json();
       
-      if (result.data.inserted) {
-        setCurrentText(result.data.updatedText);
-        form.setValue('text', result.data.updatedText);
-        toast.success(`Keyword "${keyword}" inserted successfully!`);
-      } else {
+      if (result.data.inserted && result.data.candidates.length > 1) {
+        // Let the user pick between the best placements
+        setPlacementChoice({ keyword, candidates: result.data.candidates });
+      } else if (result.data.inserted) {
+        applyPlacement(keyword, result.data.updatedText);
+      } else if (result.data.reason === 'exists') {
         toast.info(`Keyword "${keyword}" already exists in the text.`);
+      } else {
+        toast.info(`No natural place found for "${keyword}". Try adding it by hand.`);
       }
       
     } catch (error) {
@@ -152,6 +1066,60 @@ export function SEOAnalyzer() {
     }
   };
 
+  const toggleKeyword = (keyword: string, checked: boolean) => {
+    setSelectedKeywords(current =>
+      checked ? [...current, keyword] : current.filter(selected => selected !== keyword)
+    );
+  };
+
+  const insertSelectedKeywords = async () => {
+    if (!currentText || selectedKeywords.length === 0) return;
+    
+    setIsBatchInserting(true);
+    
+    try {
+      const response = await fetch('/api/insert-keywords', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: currentText,
+          keywords: selectedKeywords,
+        }),
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to insert keywords');
+      }
+      
+      const result = await response.json();
+      const results: BatchInsertionResult[] = result.data.results;
+      const inserted = results.filter(entry => entry.inserted).map(entry => entry.keyword);
+      const skipped = results.filter(entry => !entry.inserted);
+      
+      if (inserted.length > 0) {
+        history.push({
+          text: result.data.updatedText,
+          label: `Insert ${inserted.length} keyword${inserted.length === 1 ? '' : 's'}`,
+          keywords: inserted,
+        });
+        toast.success(`Inserted ${inserted.length} of ${results.length} keywords.`);
+      }
+      if (skipped.length > 0) {
+        const reasons = { exists: 'already in the text', 'no-position': 'no natural place found', density: 'would exceed the density limit' };
+        toast.info(`Skipped ${skipped.map(entry => `"${entry.keyword}" (${reasons[entry.reason ?? 'no-position']})`).join(', ')}.`);
+      }
+      setSelectedKeywords([]);
+      
+    } catch (error) {
+      console.error('Batch keyword insertion error:', error);
+      toast.error('Failed to insert keywords. Please try again.');
+    } finally {
+      setIsBatchInserting(false);
+    }
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return 'destructive';
@@ -188,6 +1156,19 @@ export function SEOAnalyzer() {
           <CardTitle className="flex items-center gap-2">
             <FileText className="w-5 h-5" />
             Content Input
+            <div className="ml-auto">
+              <ProjectsSidebar
+                projects={projects}
+                isLoading={isLoadingProjects}
+                activeProject={activeProject}
+                activeVersion={activeVersion}
+                onOpenProject={openProject}
+                onOpenVersion={openVersion}
+                onCreate={handleCreateProject}
+                onRename={handleRenameProject}
+                onDelete={handleDeleteProject}
+              />
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -195,44 +1176,333 @@ export function SEOAnalyzer() {
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField
                 control={form.control}
-                name="text"
+                name="source"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Enter your content for SEO analysis</FormLabel>
-                    <FormControl>
-                      <Textarea
-                        placeholder="Paste your blog post, article, social media content, or any text you want to optimize for SEO..."
-                        className="min-h-[200px] resize-none"
-                        {...field}
-                      />
-                    </FormControl>
-                    <div className="flex justify-between text-sm text-muted-foreground">
-                      <span>{field.value.length} characters</span>
-                      <span>Min: 50 | Max: 50,000</span>
-                    </div>
-                    <FormMessage />
+                    <Tabs value={field.value} onValueChange={field.onChange}>
+                      <TabsList>
+                        <TabsTrigger value="text">
+                          <FileText className="w-4 h-4 mr-2" />
+                          Paste text
+                        </TabsTrigger>
+                        <TabsTrigger value="url">
+                          <LinkIcon className="w-4 h-4 mr-2" />
+                          Analyze URL
+                        </TabsTrigger>
+                      </TabsList>
+                    </Tabs>
                   </FormItem>
                 )}
               />
               
-              <Button 
-                type="submit" 
-                disabled={isAnalyzing}
-                className="w-full sm:w-auto"
-                size="lg"
-              >
-                {isAnalyzing ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Analyzing...
-                  </>
-                ) : (
-                  <>
-                    <Search className="w-4 h-4 mr-2" />
-                    Analyze Content
-                  </>
+              <div className="flex flex-col sm:flex-row gap-4">
+                {source === 'text' && (
+                  <FormField
+                    control={form.control}
+                    name="format"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Content format</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="w-full sm:w-[200px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="text">Plain text</SelectItem>
+                            <SelectItem value="markdown">Markdown</SelectItem>
+                            <SelectItem value="html">HTML</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-              </Button>
+                
+                <FormField
+                  control={form.control}
+                  name="language"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Language</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="w-full sm:w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto-detect</SelectItem>
+                          {languageCodes.map(code => (
+                            <SelectItem key={code} value={code}>{languageNames[code]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="ruleProfile"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rule profile</FormLabel>
+                      <div className="flex gap-2">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="w-full sm:w-[200px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ruleProfiles.map(profile => (
+                              <SelectItem key={profile.id} value={profile.id}>
+                                {profile.name}{profile.source === 'custom' ? ' (team)' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => ruleProfileInput.current?.click()}
+                          title="Load a rule profile from a JSON file"
+                        >
+                          <Upload className="w-4 h-4" />
+                        </Button>
+                        <input
+                          ref={ruleProfileInput}
+                          type="file"
+                          accept="application/json,.json"
+                          className="hidden"
+                          onChange={event => {
+                            const file = event.target.files?.[0];
+                            if (file) loadRuleProfile(file);
+                            event.target.value = '';
+                          }}
+                        />
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              {source === 'url' ? (
+                <FormField
+                  control={form.control}
+                  name="url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Page URL</FormLabel>
+                      <FormControl>
+                        <Input type="url" placeholder="https://example.com/blog/credit-card-rewards" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        The page's main article is extracted and analyzed with its title, meta description, canonical and Open Graph tags
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="text"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Enter your content for SEO analysis</FormLabel>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => documentInput.current?.click()}
+                          disabled={isAnalyzing}
+                          title="Analyze a .docx, .md, .html or .txt file"
+                        >
+                          <Upload className="w-4 h-4 mr-1" />
+                          Upload file
+                        </Button>
+                        <input
+                          ref={documentInput}
+                          type="file"
+                          accept={uploadAccept}
+                          className="hidden"
+                          onChange={event => {
+                            const file = event.target.files?.[0];
+                            if (file) analyzeFile(file);
+                            event.target.value = '';
+                          }}
+                        />
+                      </div>
+                      {/* Dropping a document on the editor uploads and analyzes it */}
+                      <div
+                        className="relative"
+                        onDragOver={event => {
+                          if (!event.dataTransfer.types.includes('Files')) return;
+                          event.preventDefault();
+                          setIsDraggingFile(true);
+                        }}
+                        onDragLeave={event => {
+                          if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFile(false);
+                        }}
+                        onDrop={event => {
+                          if (!event.dataTransfer.types.includes('Files')) return;
+                          event.preventDefault();
+                          setIsDraggingFile(false);
+                          const file = event.dataTransfer.files[0];
+                          if (file && !isAnalyzing) analyzeFile(file);
+                        }}
+                      >
+                        <FormControl>
+                          <Textarea
+                            placeholder="Paste your blog post, article, social media content, or any text you want to optimize for SEO..."
+                            className="min-h-[200px] resize-none"
+                            {...field}
+                          />
+                        </FormControl>
+                        {isDraggingFile && (
+                          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-primary bg-background/90 text-sm pointer-events-none">
+                            <Upload className="w-6 h-6 text-primary" />
+                            Drop a .docx, .md, .html or .txt file to analyze it
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>{field.value.length} characters</span>
+                        <span>Min: 50 | Max: {MAX_TEXT_LENGTH.toLocaleString('en-US')} | Or drop a document (up to 10 MB)</span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="focusKeyword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Focus keyword (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. credit card rewards" {...field} />
+                      </FormControl>
+                      <FormDescription>The main keyword you want this content to rank for</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="secondaryKeywords"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Secondary keywords (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. cash back, annual fee" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate keywords with commas (max 10)</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              {source === 'text' && (
+                <>
+                <FormField
+                  control={form.control}
+                  name="metaTitle"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Meta title (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="The title shown in search results" {...field} />
+                      </FormControl>
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>{field.value.length} characters</span>
+                        <span>Recommended: 30-60</span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="metaDescription"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Meta description (optional)</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="A short summary shown under the title in search results"
+                          className="min-h-[80px] resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>{field.value.length} characters</span>
+                        <span>Recommended: 70-158</span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                </>
+              )}
+              
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <Button 
+                  type="submit" 
+                  disabled={isAnalyzing}
+                  className="w-full sm:w-auto"
+                  size="lg"
+                >
+                  {isAnalyzing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Analyzing...
+                    </>
+                  ) : (
+                    <>
+                      <Search className="w-4 h-4 mr-2" />
+                      {source === 'url' ? 'Analyze Page' : 'Analyze Content'}
+                    </>
+                  )}
+                </Button>
+                
+                {activeProject && source === 'url' && (
+                  <span className="text-sm text-muted-foreground">
+                    Page analyses aren't saved to "{activeProject.name}". Switch to text mode to save the extracted content as a version.
+                  </span>
+                )}
+                
+                {activeProject && source === 'text' && (
+                  <span className="text-sm text-muted-foreground">
+                    Each analysis is saved as a new version of "{activeProject.name}".
+                  </span>
+                )}
+                
+                <div className="flex items-center gap-2">
+                  <Switch id="live-mode" checked={liveMode} onCheckedChange={setLiveMode} disabled={source === 'url'} />
+                  <Label htmlFor="live-mode">Live analysis</Label>
+                  {isLiveUpdating && (
+                    <span className="flex items-center text-sm text-muted-foreground">
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      Updating...
+                    </span>
+                  )}
+                </div>
+              </div>
             </form>
           </Form>
         </CardContent>
@@ -241,15 +1511,211 @@ export function SEOAnalyzer() {
       {/* Results Section */}
       {analysisResult && (
         <div className="space-y-6">
+          {/* Export */}
+          <div className="flex justify-end">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isExporting}>
+                  {isExporting ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {reportFormats.map(({ format, label }) => (
+                  <DropdownMenuItem key={format} onSelect={() => exportReport(format)}>
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="keywords">Keywords</TabsTrigger>
+              <TabsTrigger value="structure">Structure</TabsTrigger>
+              <TabsTrigger value="highlights">Highlights</TabsTrigger>
               <TabsTrigger value="suggestions">Suggestions</TabsTrigger>
               <TabsTrigger value="preview">Preview</TabsTrigger>
+              <TabsTrigger value="compare">Compare</TabsTrigger>
             </TabsList>
             
             <TabsContent value="overview" className="space-y-6">
+              {/* Score Trend */}
+              {activeProject && activeProject.snapshots.length > 1 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="w-5 h-5" />
+                      Score Trend
+                    </CardTitle>
+                    <CardDescription>
+                      How "{activeProject.name}" has changed across its saved versions. Click a version to restore its text.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ScoreTrendChart
+                      versions={activeProject.snapshots}
+                      activeVersion={activeVersion}
+                      onRestore={openVersion}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+              
+              {/* Overall Score */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Gauge className="w-5 h-5" />
+                    SEO Score
+                    <Badge variant="outline" className="ml-auto font-normal">
+                      {analysisResult.scoring.profile.name} profile
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-4">
+                    <span className={`text-4xl font-bold ${getScoreColor(analysisResult.scoring.score)}`}>
+                      {analysisResult.scoring.score}
+                    </span>
+                    <Progress value={analysisResult.scoring.score} className="h-2 flex-1" />
+                  </div>
+                  
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Check</TableHead>
+                        <TableHead className="text-right">Weight</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analysisResult.scoring.rules.map(rule => {
+                        const { label, icon: OutcomeIcon, className } = ruleOutcomeStyles[rule.outcome];
+                        return (
+                          <TableRow key={rule.id}>
+                            <TableCell>
+                              <p className="font-medium">{rule.label}</p>
+                              <p className="text-xs text-muted-foreground capitalize">{rule.category}</p>
+                            </TableCell>
+                            <TableCell className="text-right">{rule.weight}</TableCell>
+                            <TableCell>
+                              <span className={`flex items-center gap-2 text-sm font-medium ${className}`}>
+                                <OutcomeIcon className="w-4 h-4" />
+                                {label}
+                              </span>
+                              <p className="text-xs text-muted-foreground">{rule.message}</p>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+              
+              {/* Fetched Page */}
+              {analysisResult.page && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Globe className="w-5 h-5" />
+                      Page
+                      <Badge variant="outline" className="ml-auto font-normal">
+                        HTTP {analysisResult.page.status}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription className="break-all">{analysisResult.page.url}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell className="font-medium w-[180px]">Main content</TableCell>
+                          <TableCell>
+                            {extractionLabels[analysisResult.page.extraction.method]}
+                            <p className="text-xs text-muted-foreground">
+                              {analysisResult.page.extraction.removedBlocks} navigation, sidebar and footer blocks removed
+                            </p>
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Canonical</TableCell>
+                          <TableCell className="break-all">{analysisResult.page.metadata.canonical ?? 'Missing'}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Language</TableCell>
+                          <TableCell>
+                            {analysisResult.page.metadata.language ?? 'Not declared'}
+                            {analysisResult.page.metadata.hreflang.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {analysisResult.page.metadata.hreflang.map(alternate => (
+                                  <Badge key={`${alternate.language}-${alternate.href}`} variant="secondary" title={alternate.href}>
+                                    {alternate.language}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Robots</TableCell>
+                          <TableCell>{analysisResult.page.metadata.robots ?? 'Not set (indexable)'}</TableCell>
+                        </TableRow>
+                        {Object.entries(analysisResult.page.metadata.openGraph).map(([property, value]) => (
+                          <TableRow key={property}>
+                            <TableCell className="font-medium">og:{property}</TableCell>
+                            <TableCell className={`break-all ${value ? '' : 'text-muted-foreground'}`}>{value ?? 'Missing'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+              
+              {/* Uploaded Document */}
+              {analysisResult.file && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="w-5 h-5" />
+                      Document
+                      <Badge variant="outline" className="ml-auto font-normal">
+                        {fileTypeLabels[analysisResult.file.type]}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription className="break-all">
+                      {analysisResult.file.name} ({Math.max(1, Math.round(analysisResult.file.size / 1024)).toLocaleString()} KB)
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {analysisResult.file.warnings.length > 0 ? (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium text-muted-foreground">Extraction warnings</p>
+                        {analysisResult.file.warnings.map(warning => (
+                          <div key={warning.element} className="flex items-start gap-2 text-sm">
+                            <AlertCircle className="w-4 h-4 mt-0.5 text-yellow-500 shrink-0" />
+                            <span>{warning.message}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 text-sm">
+                        <CheckCircle2 className="w-4 h-4 text-green-600" />
+                        All text, headings, links and images were extracted.
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+              
               {/* Metrics Cards */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <Card>
@@ -307,57 +1773,215 @@ export function SEOAnalyzer() {
                   <CardTitle className="flex items-center gap-2">
                     <Eye className="w-5 h-5" />
                     Readability Analysis
+                    <Badge variant="outline" className="ml-auto font-normal">
+                      {analysisResult.language.name} ({analysisResult.language.source})
+                    </Badge>
                   </CardTitle>
+                  {analysisResult.metrics.readabilityScore === null && (
+                    <CardDescription>
+                      Readability formulas are calibrated for English, so {analysisResult.language.name} text gets no reading ease score.
+                    </CardDescription>
+                  )}
                 </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm font-medium">Readability Score</span>
-                      <span className={`text-sm font-bold ${getReadabilityLevel(analysisResult.metrics.readabilityScore).color}`}>
-                        {analysisResult.metrics.readabilityScore}/100 - {getReadabilityLevel(analysisResult.metrics.readabilityScore).level}
-                      </span>
-                    </div>
-                    <Progress value={analysisResult.metrics.readabilityScore} className="h-2" />
-                  </div>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Average words per sentence:</span>
-                      <span className="font-medium">{analysisResult.metrics.avgWordsPerSentence}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Average sentences per paragraph:</span>
-                      <span className="font-medium">{analysisResult.metrics.avgSentencesPerParagraph}</span>
+                <CardContent>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      {analysisResult.metrics.readabilityScore !== null && (
+                        <div className="space-y-2">
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium">Readability Score</span>
+                            <span className={`text-sm font-bold ${getReadabilityLevel(analysisResult.metrics.readabilityScore).color}`}>
+                              {analysisResult.metrics.readabilityScore}/100 - {getReadabilityLevel(analysisResult.metrics.readabilityScore).level}
+                            </span>
+                          </div>
+                          <Progress value={analysisResult.metrics.readabilityScore} className="h-2" />
+                        </div>
+                      )}
+                      
+                      <div className="grid grid-cols-1 gap-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Average words per sentence:</span>
+                          <span className="font-medium">{analysisResult.metrics.avgWordsPerSentence}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Average sentences per paragraph:</span>
+                          <span className="font-medium">{analysisResult.metrics.avgSentencesPerParagraph}</span>
+                        </div>
+                        {analysisResult.metrics.avgSyllablesPerWord !== null && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Average syllables per word:</span>
+                            <span className="font-medium">{analysisResult.metrics.avgSyllablesPerWord}</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
+
+                    {/* Readability Formula Comparison */}
+                    {analysisResult.readability && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Formula</TableHead>
+                            <TableHead className="text-right">Score</TableHead>
+                            <TableHead>Level</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {readabilityFormulas.map(({ key, label }) => (
+                            <TableRow key={key}>
+                              <TableCell className="font-medium">{label}</TableCell>
+                              <TableCell className="text-right">{analysisResult.readability?.[key].score}</TableCell>
+                              <TableCell className="text-muted-foreground">{analysisResult.readability?.[key].band}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
                   </div>
                 </CardContent>
               </Card>
+              
+              {/* Sentence Style */}
+              {analysisResult.style && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="w-5 h-5" />
+                      Writing Style
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {getStyleChecks(analysisResult.style).map(check => (
+                        <div key={check.label} className="space-y-2">
+                          <div className="flex justify-between items-center">
+                            <span className="flex items-center gap-2 text-sm font-medium">
+                              {check.passed ? (
+                                <CheckCircle2 className="w-4 h-4 text-green-600" />
+                              ) : (
+                                <AlertCircle className="w-4 h-4 text-red-500" />
+                              )}
+                              {check.label}
+                            </span>
+                            <span className="text-sm font-bold">{check.value}%</span>
+                          </div>
+                          <Progress value={check.value} className="h-2" />
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>{check.count} of {check.total} sentences</span>
+                            <span>Target: {check.target}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
             
             <TabsContent value="keywords" className="space-y-6">
+              {analysisResult.focus && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Search className="w-5 h-5" />
+                      Focus Keyword Report
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{analysisResult.focus.primary.keyword}</span>
+                        <Badge variant={isDensityInRange(analysisResult.focus.primary.density) ? 'secondary' : 'destructive'}>
+                          {analysisResult.focus.primary.density}% density
+                        </Badge>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                        {getPlacementChecks(analysisResult.focus.primary).map(check => (
+                          <div key={check.label} className="flex items-center gap-2">
+                            {check.passed ? (
+                              <CheckCircle2 className="w-4 h-4 text-green-600" />
+                            ) : (
+                              <AlertCircle className="w-4 h-4 text-red-500" />
+                            )}
+                            <span className={check.passed ? '' : 'text-muted-foreground'}>{check.label}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    
+                    {analysisResult.focus.secondary.length > 0 && (
+                      <>
+                        <Separator />
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium text-muted-foreground">Secondary keywords</p>
+                          {analysisResult.focus.secondary.map(placement => (
+                            <div key={placement.keyword} className="flex items-center justify-between text-sm">
+                              <span>{placement.keyword}</span>
+                              <div className="flex items-center gap-2">
+                                <span className="text-muted-foreground">Used {placement.occurrences}x</span>
+                                <Badge variant={placement.occurrences > 0 && placement.density <= maxKeywordDensity ? 'secondary' : 'destructive'}>
+                                  {placement.density}%
+                                </Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+              
+              {analysisResult.topics && (
+                <TopicCoverage report={analysisResult.topics} focusKeyword={analysisResult.focus?.primary.keyword} />
+              )}
+              
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Target className="w-5 h-5" />
-                    Keyword Analysis & Suggestions
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <Target className="w-5 h-5" />
+                      Keyword Analysis & Suggestions
+                    </CardTitle>
+                    <Button
+                      onClick={insertSelectedKeywords}
+                      disabled={selectedKeywords.length === 0 || isBatchInserting}
+                      size="sm"
+                    >
+                      {isBatchInserting ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <Plus className="w-4 h-4 mr-1" />
+                      )}
+                      Insert selected{selectedKeywords.length > 0 ? ` (${selectedKeywords.length})` : ''}
+                    </Button>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <ScrollArea className="h-[500px]">
                     <div className="space-y-4">
                       {analysisResult.keywords.map((keyword, index) => (
                         <div key={index} className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors">
+                          <Checkbox
+                            className="mr-4"
+                            checked={selectedKeywords.includes(keyword.keyword)}
+                            onCheckedChange={checked => toggleKeyword(keyword.keyword, checked === true)}
+                            aria-label={`Select "${keyword.keyword}"`}
+                          />
                           <div className="flex-1 space-y-2">
                             <div className="flex items-center gap-2">
                               <span className="font-medium">{keyword.keyword}</span>
+                              {keyword.type === 'phrase' && (
+                                <Badge variant="outline">Phrase</Badge>
+                              )}
                               {keyword.frequency > 0 && (
-                                <Badge variant="secondary">
+                                <Badge variant="secondary" title="Includes plurals and other forms of the keyword">
                                   Used {keyword.frequency}x
                                 </Badge>
                               )}
                             </div>
                             
-                            <div className="grid grid-cols-3 gap-4 text-sm text-muted-foreground">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-muted-foreground">
                               <div>
                                 <span className="block">Relevance</span>
                                 <div className="flex items-center gap-1">
@@ -368,11 +1992,18 @@ export function SEOAnalyzer() {
                               <div>
                                 <span className="block">Search Volume</span>
                                 <span className="font-medium text-foreground">{keyword.searchVolume.toLocaleString()}</span>
+                                {keyword.metricsSource === 'estimate' && (
+                                  <span className="text-xs ml-1" title="Not in the keyword dataset; estimated">est.</span>
+                                )}
                               </div>
                               <div>
                                 <span className="block">Difficulty</span>
                                 <span className="font-medium text-foreground">{keyword.difficulty}/100</span>
                               </div>
+                              <div>
+                                <span className="block">CPC</span>
+                                <span className="font-medium text-foreground">${keyword.cpc.toFixed(2)}</span>
+                              </div>
                             </div>
                           </div>
                           
@@ -403,6 +2034,133 @@ export function SEOAnalyzer() {
               </Card>
             </TabsContent>
             
+            <TabsContent value="structure" className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">H1 Headings</p>
+                        <p className="text-2xl font-bold">{analysisResult.structure.h1Count}</p>
+                      </div>
+                      <Heading1 className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Images Missing Alt</p>
+                        <p className="text-2xl font-bold">
+                          {analysisResult.structure.imagesMissingAlt.length}/{analysisResult.structure.imageCount}
+                        </p>
+                      </div>
+                      <ImageIcon className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Internal / External Links</p>
+                        <p className="text-2xl font-bold">
+                          {analysisResult.structure.internalLinks} / {analysisResult.structure.externalLinks}
+                        </p>
+                      </div>
+                      <Link2 className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Lists</p>
+                        <p className="text-2xl font-bold">{analysisResult.structure.listCount}</p>
+                        <p className="text-xs text-muted-foreground">{analysisResult.structure.listItemCount} items</p>
+                      </div>
+                      <List className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListTree className="w-5 h-5" />
+                    Heading Outline
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {analysisResult.structure.headings.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No headings detected.
+                      {analysisResult.structure.format === 'text' && ' Choose Markdown or HTML format to analyze document structure.'}
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {analysisResult.structure.headings.map((heading, index) => {
+                        const hasGap = analysisResult.structure.hierarchyGaps.some(gap => gap.heading === heading.text && gap.to === heading.level);
+                        return (
+                          <div
+                            key={index}
+                            className="flex items-center gap-2 text-sm"
+                            style={{ paddingLeft: `${(heading.level - 1) * 1.25}rem` }}
+                          >
+                            <Badge variant={hasGap ? 'destructive' : 'outline'}>H{heading.level}</Badge>
+                            <span>{heading.text}</span>
+                            {hasGap && (
+                              <span className="text-xs text-muted-foreground">skips a heading level</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  
+                  {analysisResult.structure.imagesMissingAlt.length > 0 && (
+                    <>
+                      <Separator className="my-4" />
+                      <div className="space-y-1 text-sm">
+                        <p className="font-medium text-muted-foreground">Images without alt text</p>
+                        {analysisResult.structure.imagesMissingAlt.map((src, index) => (
+                          <p key={index} className="font-mono text-xs break-all">{src || '(no src)'}</p>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
+            <TabsContent value="highlights" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Highlighter className="w-5 h-5" />
+                    Readability Highlights
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Hover a highlight to see what's wrong. Click a category to show or hide it.
+                  </p>
+                  <ScrollArea className="h-[500px]">
+                    <AnnotatedText
+                      text={analysisResult.annotations.text}
+                      ranges={analysisResult.annotations.ranges}
+                    />
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
             <TabsContent value="suggestions" className="space-y-6">
               <Card>
                 <CardHeader>
@@ -439,17 +2197,125 @@ export function SEOAnalyzer() {
             <TabsContent value="preview" className="space-y-6">
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Eye className="w-5 h-5" />
-                    Updated Content Preview
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <Globe className="w-5 h-5" />
+                      Search Result Preview
+                    </CardTitle>
+                    <Tabs value={serpDevice} onValueChange={value => setSerpDevice(value as 'desktop' | 'mobile')}>
+                      <TabsList>
+                        <TabsTrigger value="desktop">
+                          <Monitor className="w-4 h-4 mr-1" />
+                          Desktop
+                        </TabsTrigger>
+                        <TabsTrigger value="mobile">
+                          <Smartphone className="w-4 h-4 mr-1" />
+                          Mobile
+                        </TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div
+                    className="rounded-lg border bg-white p-4"
+                    style={{ fontFamily: 'Arial, sans-serif', maxWidth: serpDevice === 'desktop' ? 652 : 400 }}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <div className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center">
+                        <Globe className="w-4 h-4 text-gray-500" />
+                      </div>
+                      <div className="leading-tight">
+                        <p className="text-sm text-[#202124]">example.com</p>
+                        <p className="text-xs text-[#4d5156]">https://www.example.com › {toSlug(analysisResult.meta.title.text)}</p>
+                      </div>
+                    </div>
+                    <p className={`text-[#1a0dab] hover:underline cursor-pointer ${serpDevice === 'desktop' ? 'text-xl' : 'text-lg'}`}>
+                      {analysisResult.meta.title[serpDevice].display}
+                    </p>
+                    <p className="text-sm text-[#4d5156] leading-snug mt-1">
+                      {analysisResult.meta.description[serpDevice].display}
+                    </p>
+                  </div>
+                  
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    {([['Title', analysisResult.meta.title], ['Description', analysisResult.meta.description]] as const).map(([label, field]) => (
+                      <div key={label} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{label}</span>
+                          {field.source === 'generated' && (
+                            <Badge variant="outline">Generated from content</Badge>
+                          )}
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Length:</span>
+                          <span>{field.length} characters / ~{field.pixelWidth}px</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Truncated:</span>
+                          <span>
+                            {field.desktop.truncated ? 'Desktop' : ''}
+                            {field.desktop.truncated && field.mobile.truncated ? ', ' : ''}
+                            {field.mobile.truncated ? 'Mobile' : ''}
+                            {!field.desktop.truncated && !field.mobile.truncated ? 'No' : ''}
+                          </span>
+                        </div>
+                        {field.containsFocusKeyword !== null && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Contains focus keyword:</span>
+                            <span>{field.containsFocusKeyword ? 'Yes' : 'No'}</span>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+              
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <Eye className="w-5 h-5" />
+                      Updated Content Preview
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={history.undo}
+                        disabled={!history.canUndo}
+                        variant="outline"
+                        size="sm"
+                        title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+                      >
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Undo
+                      </Button>
+                      <Button
+                        onClick={history.redo}
+                        disabled={!history.canRedo}
+                        variant="outline"
+                        size="sm"
+                        title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+                      >
+                        <Redo2 className="w-4 h-4 mr-1" />
+                        Redo
+                      </Button>
+                    </div>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <ScrollArea className="h-[500px]">
                     <div className="prose prose-sm max-w-none">
-                      <div className="whitespace-pre-wrap text-sm leading-relaxed">
-                        {currentText}
-                      </div>
+                      {/* Inserted keywords are highlighted against the analyzed text */}
+                      <InsertionDiff
+                        baseline={history.baseline.text}
+                        current={currentText}
+                        keywords={history.applied.flatMap(entry => entry.keywords ?? [])}
+                        onRevert={(text, label) => {
+                          history.push({ text, label });
+                          toast.success('Change reverted.');
+                        }}
+                      />
                     </div>
                   </ScrollArea>
                   
@@ -471,9 +2337,57 @@ export function SEOAnalyzer() {
                 </CardContent>
               </Card>
             </TabsContent>
+            
+            <TabsContent value="compare" className="space-y-6">
+              <CompetitorComparison
+                references={references}
+                onReferencesChange={setReferences}
+                report={comparison}
+                isComparing={isComparing}
+                onCompare={compareWithReferences}
+              />
+            </TabsContent>
           </Tabs>
         </div>
       )}
+      
+      <Dialog open={placementChoice !== null} onOpenChange={open => !open && setPlacementChoice(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Choose where to insert "{placementChoice?.keyword}"</DialogTitle>
+            <DialogDescription>
+              The best-scoring places in your text. The inserted words are highlighted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {placementChoice?.candidates.map((candidate, index) => (
+              <div key={candidate.offset} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{placementLabels[candidate.strategy]}</Badge>
+                    {index === 0 && <Badge>Recommended</Badge>}
+                  </div>
+                  <Button size="sm" onClick={() => applyPlacement(placementChoice.keyword, insertCandidate(currentText, candidate))}>
+                    Use this placement
+                  </Button>
+                </div>
+                <p className="text-sm leading-relaxed">
+                  {candidate.preview.before}
+                  <mark className="bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100 rounded px-0.5">
+                    {candidate.preview.insertion}
+                  </mark>
+                  {candidate.preview.after}
+                </p>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlacementChoice(null)}>
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import type { ProjectVersion } from '@/hooks/use-projects';
+
+interface ScoreTrendChartProps {
+  versions: ProjectVersion[];
+  activeVersion: number | null;
+  onRestore: (version: number) => void;
+}
+
+const seriesColors = {
+  seoScore: 'hsl(var(--chart-1))',
+  readabilityScore: 'hsl(var(--chart-2))',
+  wordCount: 'hsl(var(--chart-3))',
+};
+
+const TrendTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const version = payload[0].payload as ProjectVersion;
+
+  return (
+    <div className="bg-card border rounded-md shadow-sm p-3 text-sm">
+      <p className="font-medium">Version {version.version}</p>
+      <p className="text-xs text-muted-foreground mb-2">{new Date(version.createdAt).toLocaleString()}</p>
+      {payload.map(entry => (
+        <div key={entry.dataKey} className="flex justify-between gap-4">
+          <span style={{ color: entry.color }}>{entry.name}</span>
+          <span className="font-medium">{entry.value ?? '–'}</span>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground mt-2">Click to restore this version</p>
+    </div>
+  );
+};
+
+// Scores and length across a project's saved versions. Scores share the 0-100 axis on the
+// left and word count gets its own on the right; clicking a version restores its text.
+export function ScoreTrendChart({ versions, activeVersion, onRestore }: ScoreTrendChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <LineChart
+        data={versions}
+        margin={{ top: 10, right: 10, left: 0, bottom: 5 }}
+        onClick={state => {
+          if (state?.activeLabel !== undefined) onRestore(Number(state.activeLabel));
+        }}
+        className="cursor-pointer"
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="version" tickFormatter={version => `v${version}`} />
+        <YAxis yAxisId="score" domain={[0, 100]} />
+        <YAxis yAxisId="words" orientation="right" />
+        <Tooltip content={<TrendTooltip />} />
+        <Legend />
+        {activeVersion !== null && (
+          <ReferenceLine yAxisId="score" x={activeVersion} stroke="hsl(var(--primary))" strokeDasharray="4 4" />
+        )}
+        <Line
+          yAxisId="score"
+          type="monotone"
+          dataKey="seoScore"
+          name="SEO score"
+          stroke={seriesColors.seoScore}
+          strokeWidth={2}
+          connectNulls
+        />
+        <Line
+          yAxisId="score"
+          type="monotone"
+          dataKey="readabilityScore"
+          name="Readability"
+          stroke={seriesColors.readabilityScore}
+          strokeWidth={2}
+        />
+        <Line
+          yAxisId="words"
+          type="monotone"
+          dataKey="wordCount"
+          name="Word count"
+          stroke={seriesColors.wordCount}
+          strokeWidth={2}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
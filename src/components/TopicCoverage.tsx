@@ -0,0 +1,150 @@
+import { CircleHelp, Network } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+
+interface DraftSubtopic {
+  label: string;
+  terms: string[];
+  share: number;
+}
+
+interface ExpectedSubtopic {
+  label: string;
+  terms: string[];
+  coveredTerms: string[];
+  relevance: number;
+  status: 'covered' | 'partial' | 'missing';
+}
+
+export interface TopicReport {
+  basis: 'focus-keyword' | 'draft';
+  coverageScore: number | null;
+  subtopics: DraftSubtopic[];
+  expected: ExpectedSubtopic[];
+  missingEntities: { name: string; relevance: number }[];
+  questions: string[];
+}
+
+interface TopicCoverageProps {
+  report: TopicReport;
+  focusKeyword?: string;
+}
+
+const statusStyles: Record<ExpectedSubtopic['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  covered: { label: 'Covered', variant: 'default' },
+  partial: { label: 'Partly covered', variant: 'secondary' },
+  missing: { label: 'Missing', variant: 'destructive' },
+};
+
+export function TopicCoverage({ report, focusKeyword }: TopicCoverageProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="w-5 h-5" />
+          Topic Coverage
+        </CardTitle>
+        <CardDescription>
+          {report.basis === 'focus-keyword' && focusKeyword
+            ? `Subtopics that usually come up alongside "${focusKeyword}"`
+            : 'Subtopics related to what the draft is about. Set a focus keyword to check coverage of a specific topic.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Coverage score */}
+        {report.coverageScore !== null && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Semantic coverage</span>
+              <span className="font-bold">{report.coverageScore}%</span>
+            </div>
+            <Progress value={report.coverageScore} className="h-2" />
+          </div>
+        )}
+
+        {/* Expected subtopics */}
+        {report.expected.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-muted-foreground">Expected subtopics</p>
+            {report.expected.map((subtopic, index) => (
+              <div key={index} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{subtopic.label}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{subtopic.relevance}% related</span>
+                    <Badge variant={statusStyles[subtopic.status].variant}>{statusStyles[subtopic.status].label}</Badge>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {subtopic.terms.map(term => (
+                    <Badge
+                      key={term}
+                      variant={subtopic.coveredTerms.includes(term) ? 'secondary' : 'outline'}
+                      className={subtopic.coveredTerms.includes(term) ? '' : 'text-muted-foreground'}
+                    >
+                      {term}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Subtopics the draft covers */}
+        {report.subtopics.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">What the draft talks about</p>
+              {report.subtopics.map((subtopic, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{subtopic.label}</span>
+                    <span className="text-muted-foreground">{subtopic.share}% of key terms</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{subtopic.terms.join(', ')}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {/* Entities and questions */}
+        {(report.missingEntities.length > 0 || report.questions.length > 0) && (
+          <>
+            <Separator />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {report.missingEntities.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">Related names not mentioned</p>
+                  <div className="flex flex-wrap gap-1">
+                    {report.missingEntities.map(entity => (
+                      <Badge key={entity.name} variant="outline" title={`${entity.relevance}% related`}>
+                        {entity.name}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {report.questions.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">Questions to answer</p>
+                  {report.questions.map(question => (
+                    <div key={question} className="flex items-start gap-2 text-sm">
+                      <CircleHelp className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                      <span>{question}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import * as React from 'react';
+
+export type HistoryEntry = {
+  text: string;
+  label: string;
+  // Keywords added by this edit, when it was a keyword insertion
+  keywords?: string[];
+};
+
+type HistoryState = {
+  entries: HistoryEntry[];
+  index: number;
+};
+
+const HISTORY_LIMIT = 100;
+
+// Linear undo/redo stack of text revisions. The first entry is the baseline that
+// later revisions are diffed against; pushing after an undo discards the redo branch.
+export function useEditHistory(initialText = '') {
+  const [state, setState] = React.useState<HistoryState>({
+    entries: [{ text: initialText, label: 'Original' }],
+    index: 0,
+  });
+
+  const push = React.useCallback((entry: HistoryEntry) => {
+    setState(({ entries, index }) => {
+      const kept = [...entries.slice(0, index + 1), entry];
+      // Drop the oldest revisions but always keep the baseline
+      const trimmed = kept.length > HISTORY_LIMIT ? [kept[0], ...kept.slice(kept.length - HISTORY_LIMIT + 1)] : kept;
+      return { entries: trimmed, index: trimmed.length - 1 };
+    });
+  }, []);
+
+  const reset = React.useCallback((text: string) => {
+    setState({ entries: [{ text, label: 'Original' }], index: 0 });
+  }, []);
+
+  const undo = React.useCallback(() => {
+    setState(current => ({ ...current, index: Math.max(0, current.index - 1) }));
+  }, []);
+
+  const redo = React.useCallback(() => {
+    setState(current => ({ ...current, index: Math.min(current.entries.length - 1, current.index + 1) }));
+  }, []);
+
+  const { entries, index } = state;
+
+  return {
+    current: entries[index],
+    baseline: entries[0],
+    // Entries that make up the current text, oldest first
+    applied: entries.slice(1, index + 1),
+    canUndo: index > 0,
+    canRedo: index < entries.length - 1,
+    undoLabel: index > 0 ? entries[index].label : null,
+    redoLabel: index < entries.length - 1 ? entries[index + 1].label : null,
+    push,
+    reset,
+    undo,
+    redo,
+  };
+}
@@ -0,0 +1,76 @@
+import * as React from 'react';
+
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  snapshotCount: number;
+  latestVersion: number | null;
+};
+
+export type ProjectVersion = {
+  version: number;
+  createdAt: string;
+  wordCount: number;
+  // Null for text that isn't English
+  readabilityScore: number | null;
+  // Missing for versions saved before the overall score existed
+  seoScore: number | null;
+};
+
+export type ProjectDetail = ProjectSummary & {
+  snapshots: ProjectVersion[];
+};
+
+const requestJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed');
+  }
+  return result.data;
+};
+
+// Saved projects from the server, most recently updated first. Mutations throw on failure
+// so callers can report them; the list is refetched after each one.
+export function useProjects() {
+  const [projects, setProjects] = React.useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setProjects(await requestJson('/api/projects'));
+    } catch (error) {
+      console.error('Project list error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createProject = React.useCallback(async (name: string): Promise<ProjectDetail> => {
+    const project = await requestJson('/api/projects', { method: 'POST', body: JSON.stringify({ name }) });
+    await refresh();
+    return project;
+  }, [refresh]);
+
+  const renameProject = React.useCallback(async (id: string, name: string): Promise<ProjectSummary> => {
+    const project = await requestJson(`/api/projects/${id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+    await refresh();
+    return project;
+  }, [refresh]);
+
+  const deleteProject = React.useCallback(async (id: string) => {
+    await requestJson(`/api/projects/${id}`, { method: 'DELETE' });
+    await refresh();
+  }, [refresh]);
+
+  return { projects, isLoading, refresh, createProject, renameProject, deleteProject };
+}
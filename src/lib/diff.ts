@@ -0,0 +1,134 @@
+export type DiffOp = {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+  // Index of the change hunk this op belongs to; equal ops have none
+  hunk?: number;
+};
+
+// Edits beyond this are reported as one replacement rather than diffed word by word
+const MAX_EDIT_DISTANCE = 1000;
+
+// Words and the whitespace between them, so whitespace changes stay separate from word changes
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+// Myers' O((N+M)D) shortest edit script over token arrays
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset, d);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], offset: number, distance: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = distance; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', value: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', value: b[--y] });
+    } else {
+      ops.push({ type: 'delete', value: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', value: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+// Merge neighbouring ops of the same type and number each run of changes
+function groupHunks(ops: DiffOp[]): DiffOp[] {
+  const merged: DiffOp[] = [];
+  let hunk = -1;
+  let inHunk = false;
+
+  ops.forEach(op => {
+    if (op.type !== 'equal' && !inHunk) hunk++;
+    inHunk = op.type !== 'equal';
+
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type && last.hunk === (inHunk ? hunk : undefined)) {
+      last.value += op.value;
+    } else {
+      merged.push(inHunk ? { ...op, hunk } : { ...op });
+    }
+  });
+
+  return merged;
+}
+
+// Word-level diff from `before` to `after`
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the shared prefix and suffix so only the changed middle is searched
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middle = myers(a.slice(start, endA), b.slice(start, endB)) ?? [
+    ...a.slice(start, endA).map(value => ({ type: 'delete' as const, value })),
+    ...b.slice(start, endB).map(value => ({ type: 'insert' as const, value })),
+  ];
+
+  return groupHunks([
+    ...a.slice(0, start).map(value => ({ type: 'equal' as const, value })),
+    ...middle,
+    ...a.slice(endA).map(value => ({ type: 'equal' as const, value })),
+  ]);
+}
+
+// The `after` text with one hunk rolled back to its `before` content
+export function revertHunk(ops: DiffOp[], hunk: number): string {
+  return ops
+    .filter(op => {
+      if (op.type === 'equal') return true;
+      if (op.hunk === hunk) return op.type === 'delete';
+      return op.type === 'insert';
+    })
+    .map(op => op.value)
+    .join('');
+}
@@ -1,6 +1,9 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
+// Longest text the analyze endpoints accept, for the editor and the comparison references alike
+export const MAX_TEXT_LENGTH = 500000;
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }